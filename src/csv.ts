@@ -0,0 +1,66 @@
+// backend/csv.ts
+
+// RFC 4180 style: fields containing commas, quotes or line breaks are quoted,
+// quotes inside them doubled. Rows end with CRLF.
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = value === null ? "" : String(value);
+          return /[",\r\n]/.test(field)
+            ? `"${field.replace(/"/g, '""')}"`
+            : field;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+// Parses CSV text into rows of fields. Accepts CRLF or LF line endings and a
+// leading byte order mark; blank lines are skipped. Returns an error instead
+// of throwing on an unterminated quoted field.
+export function parseCsv(
+  text: string
+): { rows: string[][] } | { error: string } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) return { error: "Unterminated quoted field" };
+  if (field !== "" || row.length > 0) endRow();
+  return { rows };
+}
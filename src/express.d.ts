@@ -7,6 +7,8 @@ declare global {
       user?: {
         userId: string;
         email: string;
+        sessionId: string | null; // null for personal access tokens
+        tokenId: string | null;
       };
     }
   }
@@ -15,5 +17,7 @@ declare global {
 // Add WebSocket type extensions
 interface WebSocketClient extends WebSocket {
   userId?: string;
-  boardId?: string;
-}
\ No newline at end of file
+  sessionId?: string;
+  boardIds?: Set<string>; // boards this socket is subscribed to
+  isAlive?: boolean; // cleared on each heartbeat, set again by the pong
+}
@@ -2,12 +2,32 @@
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { WebSocketServer, WebSocket } from "ws";
-import { MongoClient, ObjectId } from "mongodb";
+import { MongoClient, ObjectId, Filter, ClientSession } from "mongodb";
 import dotenv from "dotenv";
 import http from "http";
 import { v4 as uuidv4 } from "uuid";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { createMailer } from "./mailer";
+import { parseCsv, toCsv } from "./csv";
+import { createPubSub } from "./pubsub";
+import { checkWebhookTarget, postWebhook } from "./webhooks";
+import type {
+  BoardEvent,
+  BoardExport,
+  ClientMessage,
+  ExportedTask,
+  ImportIssue,
+  PresenceEvent,
+  PresenceUser,
+  SequencedEvent,
+  ServerMessage,
+  SignalState,
+  TaskInput,
+  WebhookInput,
+} from "./types";
 
 dotenv.config();
 
@@ -15,6 +35,50 @@ const PORT = process.env.PORT ? Number(process.env.PORT) : 4000;
 const MONGODB_URI = process.env.MONGODB_URI!;
 const JWT_SECRET = process.env.JWT_SECRET || "supersecretjwt";
 const AUTH_TOKEN = process.env.AUTH_TOKEN || "supersecret";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const PASSWORD_RESET_TTL_MINUTES = process.env.PASSWORD_RESET_TTL_MINUTES
+  ? Number(process.env.PASSWORD_RESET_TTL_MINUTES)
+  : 60;
+const EMAIL_CHANGE_TTL_HOURS = process.env.EMAIL_CHANGE_TTL_HOURS
+  ? Number(process.env.EMAIL_CHANGE_TTL_HOURS)
+  : 24;
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = process.env.REFRESH_TOKEN_TTL_DAYS
+  ? Number(process.env.REFRESH_TOKEN_TTL_DAYS)
+  : 30;
+const TRASH_RETENTION_DAYS = process.env.TRASH_RETENTION_DAYS
+  ? Number(process.env.TRASH_RETENTION_DAYS)
+  : 30;
+const INVITE_TTL_DAYS = process.env.INVITE_TTL_DAYS
+  ? Number(process.env.INVITE_TTL_DAYS)
+  : 7;
+const HEARTBEAT_INTERVAL_MS = process.env.HEARTBEAT_INTERVAL_MS
+  ? Number(process.env.HEARTBEAT_INTERVAL_MS)
+  : 30000;
+// How many recent events each board keeps for reconnecting sockets
+const EVENT_LOG_SIZE = process.env.EVENT_LOG_SIZE
+  ? Number(process.env.EVENT_LOG_SIZE)
+  : 500;
+// How long an instance holds back a board event that arrived ahead of its
+// predecessors, see deliverBoardFanout
+const FANOUT_REORDER_WINDOW_MS = process.env.FANOUT_REORDER_WINDOW_MS
+  ? Number(process.env.FANOUT_REORDER_WINDOW_MS)
+  : 2000;
+const WEBHOOK_MAX_ATTEMPTS = process.env.WEBHOOK_MAX_ATTEMPTS
+  ? Number(process.env.WEBHOOK_MAX_ATTEMPTS)
+  : 8;
+const WEBHOOK_RETRY_BASE_SECONDS = process.env.WEBHOOK_RETRY_BASE_SECONDS
+  ? Number(process.env.WEBHOOK_RETRY_BASE_SECONDS)
+  : 30;
+// How many webhooks a retry sweep sends to at once
+const WEBHOOK_RETRY_CONCURRENCY = process.env.WEBHOOK_RETRY_CONCURRENCY
+  ? Number(process.env.WEBHOOK_RETRY_CONCURRENCY)
+  : 5;
+// Board imports arrive as one JSON body, so this also caps their size
+const REQUEST_BODY_LIMIT = process.env.REQUEST_BODY_LIMIT || "5mb";
+const IMPORT_MAX_TASKS = process.env.IMPORT_MAX_TASKS
+  ? Number(process.env.IMPORT_MAX_TASKS)
+  : 5000;
 
 if (!MONGODB_URI) {
   console.error("MONGODB_URI not set");
@@ -28,16 +92,30 @@ interface User {
   email: string;
   password: string;
   name: string;
+  avatarUrl?: string | null;
+  timezone?: string | null;
   createdAt: number;
 }
 
+type TeamRole = "owner" | "admin" | "member" | "viewer";
+
 interface Team {
   _id?: ObjectId;
   id: string;
   name: string;
   ownerId: string;
   members: string[];
+  roles?: Record<string, TeamRole>; // userId -> role, missing entries are "member"
   createdAt: number;
+  deletedAt?: number | null; // set while the team sits in the trash
+  deletedBy?: string | null;
+}
+
+interface BoardColumn {
+  id: string;
+  name: string;
+  wipLimit: number | null; // max tasks in the column, null for unlimited
+  archived: boolean;
 }
 
 interface Board {
@@ -47,56 +125,1026 @@ interface Board {
   teamId: string | null;
   ownerId: string;
   isPersonal: boolean;
+  columns?: BoardColumn[]; // in display order; missing on legacy boards
   createdAt: number;
+  version: number; // bumped on every edit, served as the ETag
+  eventSeq?: number; // sequence number of the board's latest event
+  deletedAt?: number | null; // set while the board sits in the trash
+  deletedBy?: string | null;
 }
 
+type TaskPriority = "none" | "low" | "medium" | "high" | "urgent";
+
 interface Task {
   _id?: ObjectId;
   id: string;
   title: string;
   description?: string;
-  column: "todo" | "inprogress" | "done" | "unsure";
+  column: string; // id of one of the board's columns
+  createdAt: number;
+  rank: string; // lexicographic sort key within the column, see rankBetween
+  version: number; // bumped on every write, served as the ETag
+  boardId: string;
+  assigneeIds?: string[]; // user IDs, must be members of the board's team
+  dueDate?: number | null;
+  priority?: TaskPriority;
+  labelIds?: string[]; // labels defined on the same board
+  movedAt?: number; // last time the task entered its current column
+  archivedAt?: number | null; // archived tasks stay off the board
+  archivedBy?: string | null;
+  deletedAt?: number | null; // set while the task sits in the trash
+  deletedBy?: string | null;
+}
+
+interface Comment {
+  _id?: ObjectId;
+  id: string;
+  taskId: string;
+  boardId: string;
+  authorId: string;
+  body: string;
+  mentions: string[]; // user IDs resolved from @mentions in the body
+  createdAt: number;
+  updatedAt: number | null;
+}
+
+type ActivityAction =
+  | "task.created"
+  | "task.updated"
+  | "task.moved"
+  | "task.deleted"
+  | "task.restored"
+  | "task.archived"
+  | "task.unarchived"
+  | "board.renamed"
+  | "board.deleted"
+  | "board.restored"
+  | "team.invited"
+  | "team.deleted"
+  | "team.restored";
+
+// Append-only audit entry. `before`/`after` hold only the fields that changed
+// (or the full snapshot for creations and deletions).
+interface Activity {
+  _id?: ObjectId;
+  id: string;
+  action: ActivityAction;
+  actorId: string;
+  teamId: string | null;
+  boardId: string | null;
+  taskId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: number;
+}
+
+// Activity actions that webhooks can subscribe to
+type WebhookEvent = Extract<
+  ActivityAction,
+  `task.${string}` | `board.${string}`
+>;
+
+const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "task.created",
+  "task.updated",
+  "task.moved",
+  "task.deleted",
+  "task.restored",
+  "task.archived",
+  "task.unarchived",
+  "board.renamed",
+  "board.deleted",
+  "board.restored",
+];
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+// Exactly one of boardId/teamId is set; team webhooks cover all of the
+// team's boards
+interface Webhook {
+  _id?: ObjectId;
+  id: string;
+  boardId: string | null;
+  teamId: string | null;
+  url: string;
+  secret: string; // HMAC key for the X-Taskboard-Signature header
+  events: WebhookEvent[];
+  active: boolean;
+  createdBy: string;
+  createdAt: number;
+}
+
+type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+interface WebhookDelivery {
+  _id?: ObjectId;
+  id: string;
+  webhookId: string;
+  event: string; // a WebhookEvent, or "ping" for test deliveries
+  payload: Record<string, unknown>; // the JSON body, sent as-is on retries
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // null once the delivery is settled
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+// One entry of a board's bounded event log, kept so that a socket that
+// reconnects can catch up on what it missed
+interface BoardEventRecord {
+  _id?: ObjectId;
+  boardId: string;
+  seq: number;
+  event: SequencedEvent;
   createdAt: number;
-  order: number;
+}
+
+interface Label {
+  _id?: ObjectId;
+  id: string;
   boardId: string;
+  name: string;
+  color: string; // #rrggbb
+  createdAt: number;
+}
+
+type InvitationStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "expired"
+  | "revoked";
+
+interface Invitation {
+  _id?: ObjectId;
+  id: string;
+  teamId: string;
+  email: string;
+  role: TeamRole;
+  invitedBy: string;
+  inviteeId: string | null; // set once the email belongs to a registered user
+  status: InvitationStatus;
+  createdAt: number;
+  expiresAt: number;
+  respondedAt?: number;
+}
+
+interface InviteTokenPayload {
+  purpose: "invite";
+  invitationId: string;
+  email: string;
+}
+
+interface Session {
+  _id?: ObjectId;
+  id: string;
+  userId: string;
+  refreshTokenHash: string; // sha256 of the current refresh token secret
+  userAgent?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  revokedAt: number | null;
+}
+
+const PERSONAL_TOKEN_PREFIX = "pat_";
+
+type TokenScope = "read" | "write";
+
+// Personal access tokens authenticate API scripts without a session. Only the
+// sha256 of the token is stored; it is shown to the user once, at creation.
+interface PersonalAccessToken {
+  _id?: ObjectId;
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string; // first characters of the token, to recognise it in lists
+  scope: TokenScope; // "read" tokens may only make GET requests
+  boardIds: string[]; // with teamIds, limits the token; both empty = no limit
+  teamIds: string[];
+  createdAt: number;
+  lastUsedAt: number | null;
+  expiresAt: number | null;
+  revokedAt: number | null;
+}
+
+interface PasswordReset {
+  _id?: ObjectId;
+  id: string;
+  userId: string;
+  tokenHash: string;
+  createdAt: number;
+  expiresAt: number;
+  usedAt: number | null;
+}
+
+interface EmailChange {
+  _id?: ObjectId;
+  id: string;
+  userId: string;
+  email: string; // the new address awaiting verification
+  tokenHash: string;
+  createdAt: number;
+  expiresAt: number;
+  usedAt: number | null;
 }
 
+// What server instances tell each other through the pub/sub layer; each
+// instance then acts on the sockets it holds itself
+type FanoutMessage =
+  | {
+      kind: "board";
+      boardId: string;
+      message: ServerMessage;
+      seq?: number; // set for numbered board events
+      exceptSocketId?: string;
+    }
+  | { kind: "close_sessions"; sessionIds: string[] }
+  | {
+      kind: "drop_subscriptions";
+      userId: string;
+      boardIds: string[];
+      reason: string;
+    };
+
 interface JwtPayload {
   userId: string;
   email: string;
+  sessionId: string;
+}
+
+// Exactly one of sessionId/tokenId is set, depending on how the request
+// authenticated
+interface AuthUser {
+  userId: string;
+  email: string;
+  sessionId: string | null;
+  tokenId: string | null;
 }
 
 // Extend Express Request interface
 declare global {
   namespace Express {
     interface Request {
-      user?: JwtPayload;
+      user?: AuthUser;
+    }
+  }
+}
+
+// Board and team limits of the personal access token behind the current
+// request. Kept in async context so that every access check sees them without
+// each route passing the token along; absent for session requests.
+const tokenLimits = new AsyncLocalStorage<
+  Pick<PersonalAccessToken, "boardIds" | "teamIds">
+>();
+
+function hasTokenLimits(
+  limits: Pick<PersonalAccessToken, "boardIds" | "teamIds"> | undefined
+): boolean {
+  return !!limits && (limits.boardIds.length > 0 || limits.teamIds.length > 0);
+}
+
+function tokenAllowsBoard(
+  board: Pick<Board, "id" | "teamId">,
+  limits = tokenLimits.getStore()
+): boolean {
+  if (!hasTokenLimits(limits)) return true;
+  return (
+    limits.boardIds.includes(board.id) ||
+    (!!board.teamId && limits.teamIds.includes(board.teamId))
+  );
+}
+
+function tokenAllowsTeam(
+  teamId: string,
+  limits = tokenLimits.getStore()
+): boolean {
+  return !hasTokenLimits(limits) || limits.teamIds.includes(teamId);
+}
+
+const TEAM_ROLES: TeamRole[] = ["owner", "admin", "member", "viewer"];
+
+const ROLE_RANK: Record<TeamRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+function getTeamRole(team: Team, userId: string): TeamRole | null {
+  if (team.ownerId === userId) return "owner";
+  if (!team.members.includes(userId)) return null;
+  return team.roles?.[userId] ?? "member";
+}
+
+function hasRole(role: TeamRole | null, minRole: TeamRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+const TASK_PRIORITIES: TaskPriority[] = [
+  "none",
+  "low",
+  "medium",
+  "high",
+  "urgent",
+];
+
+// What a user is doing with a task, relayed live over the socket
+const SIGNAL_STATES: SignalState[] = ["editing", "dragging", "idle"];
+
+// Returns just the fields that differ between two versions of a document
+function diffFields<T extends object>(
+  before: T,
+  after: T,
+  fields: (keyof T)[]
+): { before: Partial<T>; after: Partial<T> } | null {
+  const changed = fields.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+  if (changed.length === 0) return null;
+
+  const pick = (doc: T) =>
+    Object.fromEntries(changed.map((f) => [f, doc[f] ?? null])) as Partial<T>;
+  return { before: pick(before), after: pick(after) };
+}
+
+const TASK_AUDIT_FIELDS: (keyof Task)[] = [
+  "title",
+  "description",
+  "column",
+  "rank",
+  "assigneeIds",
+  "dueDate",
+  "priority",
+  "labelIds",
+];
+
+function taskSnapshot(task: Task): Record<string, unknown> {
+  const { _id, ...rest } = task;
+  return rest;
+}
+
+// Task ranks are strings over an ordered alphabet compared lexicographically,
+// so a task can always be placed between two neighbours by writing a single
+// new key. Keys never end in the lowest digit, which keeps a gap below every
+// key open.
+const RANK_DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const RANK_BASE = RANK_DIGITS.length;
+// Keys longer than this get their column rebalanced in the background
+const RANK_REBALANCE_LENGTH = 12;
+
+// A key strictly between `before` and `after`; null means open-ended
+function rankBetween(before: string | null, after: string | null): string {
+  const lower = before ?? "";
+  let key = "";
+  let upperTight = after !== null;
+  for (let i = 0; ; i++) {
+    const lo = i < lower.length ? RANK_DIGITS.indexOf(lower[i]) : 0;
+    const hi = upperTight
+      ? i < after!.length
+        ? RANK_DIGITS.indexOf(after![i])
+        : 0
+      : RANK_BASE;
+    if (hi - lo > 1) return key + RANK_DIGITS[Math.floor((lo + hi) / 2)];
+    key += RANK_DIGITS[lo];
+    if (hi !== lo) upperTight = false;
+  }
+}
+
+// Like rankBetween, plus a short random suffix so two people dropping a card
+// into the same gap at the same moment don't end up with identical keys
+function jitteredRank(before: string | null, after: string | null): string {
+  let suffix = "";
+  for (let i = 0; i < 3; i++) {
+    suffix += RANK_DIGITS[1 + Math.floor(Math.random() * (RANK_BASE - 1))];
+  }
+  return rankBetween(before, after) + suffix;
+}
+
+// `count` evenly spaced keys of the shortest length that leaves gaps
+function evenRanks(count: number): string[] {
+  let length = 1;
+  while (RANK_BASE ** length < (count + 1) * 2) length++;
+  const span = RANK_BASE ** length;
+  return Array.from({ length: count }, (_, i) => {
+    let n = Math.floor(((i + 1) * span) / (count + 1));
+    let key = "";
+    for (let d = 0; d < length; d++) {
+      key = RANK_DIGITS[n % RANK_BASE] + key;
+      n = Math.floor(n / RANK_BASE);
+    }
+    return key.replace(/0+$/, "");
+  });
+}
+
+// Boards created before custom columns existed use these ids in Task.column
+const DEFAULT_COLUMNS: BoardColumn[] = [
+  { id: "todo", name: "To Do", wipLimit: null, archived: false },
+  { id: "inprogress", name: "In Progress", wipLimit: null, archived: false },
+  { id: "done", name: "Done", wipLimit: null, archived: false },
+  { id: "unsure", name: "Unsure", wipLimit: null, archived: false },
+];
+
+function getBoardColumns(board: Board): BoardColumn[] {
+  return board.columns ?? DEFAULT_COLUMNS.map((c) => ({ ...c }));
+}
+
+function withColumns(board: Board): Board {
+  return { ...board, columns: getBoardColumns(board) };
+}
+
+function parseWipLimit(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+    return value;
+  }
+  return undefined;
+}
+
+interface ReorderEntry {
+  id: string;
+  column: string;
+  order: number; // target index within the column
+  version: number; // task version the client based the move on
+}
+
+function parseReorderEntries(
+  value: unknown
+): { entries: ReorderEntry[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "tasks must be a non-empty array" };
+  }
+  const seen = new Set<string>();
+  for (const entry of value) {
+    if (
+      typeof entry?.id !== "string" ||
+      typeof entry.column !== "string" ||
+      !Number.isInteger(entry.order) ||
+      entry.order < 0 ||
+      !Number.isInteger(entry.version)
+    ) {
+      return {
+        error: "Each task needs an id, column, order and version",
+      };
+    }
+    if (seen.has(entry.id)) {
+      return { error: `Task listed twice: ${entry.id}` };
+    }
+    seen.add(entry.id);
+  }
+  return {
+    entries: value.map(({ id, column, order, version }) => ({
+      id,
+      column,
+      order,
+      version,
+    })),
+  };
+}
+
+// Versions are exposed as strong ETags of the form "3"
+function versionTag(version: number) {
+  return `"${version}"`;
+}
+
+// The version an If-Match header asks for: undefined when the header is
+// absent or "*", null when it isn't a single version tag
+function parseIfMatch(header: string | undefined): number | null | undefined {
+  if (header === undefined || header.trim() === "*") return undefined;
+  const match = /^"(\d+)"$/.exec(header.trim());
+  return match ? Number(match[1]) : null;
+}
+
+const LABEL_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const DEFAULT_LABEL_COLOR = "#9ca3af";
+
+// Task fields of a CSV export, in column order. CSV imports read the same
+// fields from whichever headers the request maps to them.
+const CSV_FIELDS = [
+  "title",
+  "description",
+  "column",
+  "order",
+  "priority",
+  "dueDate",
+  "labels",
+  "assignees",
+  "archived",
+] as const;
+
+type CsvField = (typeof CSV_FIELDS)[number];
+
+// One task of an import after validation, before it is placed on the board
+interface ImportedTask {
+  row: number;
+  title: string;
+  description: string;
+  column: string; // column id on the new board
+  order: number | null; // null places the task after the ordered ones
+  priority: TaskPriority;
+  dueDate: number | null;
+  labels: string[]; // label names
+  assignees: string[]; // user emails
+  archived: boolean;
+}
+
+interface ParsedImport {
+  name: string | null; // board name found in the file, if any
+  columns: BoardColumn[];
+  labels: { name: string; color: string }[];
+  tasks: ImportedTask[];
+  errors: ImportIssue[];
+  headers?: string[]; // CSV only, echoed by dry runs for the mapping step
+  mapping?: Partial<Record<CsvField, string>>;
+}
+
+// Spreadsheets run cells starting with these as formulas; exported text gets
+// a leading apostrophe so it opens as plain text, and imports drop it again
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvText(value: string): string {
+  return CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function exportToCsv(exported: BoardExport): string {
+  const columnNames = new Map(
+    exported.board.columns.map((c) => [c.id, c.name])
+  );
+  return toCsv([
+    [...CSV_FIELDS],
+    ...exported.tasks.map((task) => [
+      csvText(task.title),
+      csvText(task.description),
+      csvText(columnNames.get(task.column) ?? task.column),
+      task.order,
+      task.priority,
+      task.dueDate === null ? null : new Date(task.dueDate).toISOString(),
+      csvText(task.labels.join("; ")),
+      csvText(task.assignees.join("; ")),
+      String(task.archived),
+    ]),
+  ]);
+}
+
+// CSV cells hold lists as "a; b" and everything else as text; JSON values
+// arrive typed. Both go through here.
+function parseImportedTask(
+  row: number,
+  raw: Record<string, unknown>,
+  columnIds: string[]
+): { task: ImportedTask } | { error: string } {
+  const blank = (value: unknown) =>
+    value === undefined || value === null || value === "";
+  const list = (value: unknown): string[] | null => {
+    if (blank(value)) return [];
+    const items =
+      typeof value === "string"
+        ? value.split(";")
+        : Array.isArray(value)
+        ? value
+        : null;
+    if (!items || !items.every((item) => typeof item === "string")) return null;
+    return [
+      ...new Set(items.map((item: string) => item.trim()).filter(Boolean)),
+    ];
+  };
+
+  const { title, description, column, order, priority, dueDate, archived } =
+    raw;
+
+  if (typeof title !== "string" || !title.trim()) {
+    return { error: "title required" };
+  }
+  if (!blank(description) && typeof description !== "string") {
+    return { error: "description must be text" };
+  }
+  if (typeof column !== "string" || !columnIds.includes(column)) {
+    return { error: `Unknown column: ${column ?? ""}` };
+  }
+
+  let position: number | null = null;
+  if (!blank(order)) {
+    position = typeof order === "string" ? Number(order) : (order as number);
+    if (!Number.isInteger(position) || position < 0) {
+      return { error: "order must be a non-negative integer" };
+    }
+  }
+
+  if (!blank(priority) && !TASK_PRIORITIES.includes(priority as TaskPriority)) {
+    return { error: `priority must be one of ${TASK_PRIORITIES.join(", ")}` };
+  }
+
+  let due: number | null = null;
+  if (!blank(dueDate)) {
+    due =
+      typeof dueDate === "number"
+        ? dueDate
+        : typeof dueDate === "string"
+        ? Date.parse(dueDate)
+        : NaN;
+    if (!Number.isFinite(due)) {
+      return { error: "dueDate must be a timestamp or ISO date" };
+    }
+  }
+
+  const labels = list(raw.labels);
+  if (!labels) return { error: "labels must be a list of label names" };
+  const assignees = list(raw.assignees);
+  if (!assignees) return { error: "assignees must be a list of emails" };
+
+  let isArchived = false;
+  if (typeof archived === "boolean") {
+    isArchived = archived;
+  } else if (
+    typeof archived === "string" &&
+    /^(true|false)?$/i.test(archived)
+  ) {
+    isArchived = archived.toLowerCase() === "true";
+  } else if (!blank(archived)) {
+    return { error: "archived must be true or false" };
+  }
+
+  return {
+    task: {
+      row,
+      title: title.trim(),
+      description: (description as string) || "",
+      column,
+      order: position,
+      priority: blank(priority) ? "none" : (priority as TaskPriority),
+      dueDate: due,
+      labels,
+      assignees,
+      archived: isArchived,
+    },
+  };
+}
+
+function parseJsonImport(data: any): ParsedImport | { error: string } {
+  if (!data || data.format !== "taskboard.board" || data.version !== 1) {
+    return { error: "data is not a board export" };
+  }
+  if (!Array.isArray(data.tasks) || !Array.isArray(data.labels ?? [])) {
+    return { error: "data.tasks and data.labels must be arrays" };
+  }
+  if (data.tasks.length > IMPORT_MAX_TASKS) {
+    return { error: `An import may hold at most ${IMPORT_MAX_TASKS} tasks` };
+  }
+
+  if (!Array.isArray(data.board?.columns) || data.board.columns.length === 0) {
+    return { error: "data.board.columns must be a non-empty array" };
+  }
+  const columns: BoardColumn[] = [];
+  for (const column of data.board.columns) {
+    if (
+      typeof column?.id !== "string" ||
+      !column.id ||
+      typeof column.name !== "string" ||
+      !column.name.trim()
+    ) {
+      return { error: "Every column needs an id and a name" };
+    }
+    if (columns.some((c) => c.id === column.id)) {
+      return { error: `Duplicate column id: ${column.id}` };
+    }
+    const wipLimit =
+      column.wipLimit === undefined ? null : parseWipLimit(column.wipLimit);
+    if (wipLimit === undefined) {
+      return { error: `Invalid wipLimit for column ${column.id}` };
+    }
+    columns.push({
+      id: column.id,
+      name: column.name.trim(),
+      wipLimit,
+      archived: column.archived === true,
+    });
+  }
+
+  const labels: { name: string; color: string }[] = [];
+  for (const label of data.labels ?? []) {
+    if (typeof label?.name !== "string" || !label.name.trim()) {
+      return { error: "Every label needs a name" };
+    }
+    if (
+      typeof label.color !== "string" ||
+      !LABEL_COLOR_PATTERN.test(label.color)
+    ) {
+      return { error: `Label color must be a hex color like #ff0000` };
+    }
+    if (labels.some((l) => l.name === label.name.trim())) {
+      return { error: `Duplicate label: ${label.name}` };
+    }
+    labels.push({ name: label.name.trim(), color: label.color });
+  }
+
+  const columnIds = columns.map((c) => c.id);
+  const tasks: ImportedTask[] = [];
+  const errors: ImportIssue[] = [];
+  data.tasks.forEach((raw: unknown, index: number) => {
+    const parsed = parseImportedTask(
+      index + 1,
+      raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {},
+      columnIds
+    );
+    if ("error" in parsed) {
+      errors.push({ row: index + 1, message: parsed.error });
+    } else {
+      tasks.push(parsed.task);
+    }
+  });
+
+  return {
+    name:
+      typeof data.board.name === "string" && data.board.name.trim()
+        ? data.board.name.trim()
+        : null,
+    columns,
+    labels,
+    tasks,
+    errors,
+  };
+}
+
+// Board columns come from the distinct values of the mapped column header, in
+// order of first appearance; exports list tasks in column display order, so
+// their columns come back in the same order.
+function parseCsvImport(
+  data: unknown,
+  mapping: unknown
+): ParsedImport | { error: string } {
+  if (typeof data !== "string") {
+    return { error: "data must be the CSV text" };
+  }
+  const parsed = parseCsv(data);
+  if ("error" in parsed) return { error: parsed.error };
+  const [headers, ...rows] = parsed.rows;
+  if (!headers) return { error: "CSV is empty" };
+  if (rows.length > IMPORT_MAX_TASKS) {
+    return { error: `An import may hold at most ${IMPORT_MAX_TASKS} tasks` };
+  }
+
+  // Headers default to the field names; `mapping` overrides them per field,
+  // and null skips a field
+  if (
+    mapping !== undefined &&
+    (typeof mapping !== "object" || mapping === null || Array.isArray(mapping))
+  ) {
+    return { error: "mapping must be an object of field to header" };
+  }
+  const requested = (mapping ?? {}) as Record<string, unknown>;
+  const unknownField = Object.keys(requested).find(
+    (field) => !CSV_FIELDS.includes(field as CsvField)
+  );
+  if (unknownField) {
+    return { error: `Unknown field in mapping: ${unknownField}` };
+  }
+  const resolved: Partial<Record<CsvField, string>> = {};
+  for (const field of CSV_FIELDS) {
+    const header =
+      field in requested
+        ? requested[field]
+        : headers.find((h) => h.trim().toLowerCase() === field.toLowerCase());
+    if (header === undefined || header === null) continue;
+    if (typeof header !== "string" || !headers.includes(header)) {
+      return { error: `Unknown header for ${field}: ${header}` };
+    }
+    resolved[field] = header;
+  }
+  if (!resolved.title || !resolved.column) {
+    return { error: "mapping must name the title and column headers" };
+  }
+
+  const columns: BoardColumn[] = [];
+  const tasks: ImportedTask[] = [];
+  const errors: ImportIssue[] = [];
+  rows.forEach((cells, index) => {
+    const row = index + 2; // the header is row 1
+    const raw: Record<string, unknown> = {};
+    for (const field of CSV_FIELDS) {
+      const header = resolved[field];
+      const cell = cells[headers.indexOf(header)];
+      if (header === undefined || cell === undefined) continue;
+      raw[field] =
+        cell.startsWith("'") && CSV_FORMULA_PREFIX.test(cell.slice(1))
+          ? cell.slice(1)
+          : cell;
+    }
+
+    const columnName = typeof raw.column === "string" ? raw.column.trim() : "";
+    if (!columnName) {
+      errors.push({ row, message: "column required" });
+      return;
+    }
+    let column = columns.find((c) => c.name === columnName);
+    if (!column) {
+      column = {
+        id: uuidv4(),
+        name: columnName,
+        wipLimit: null,
+        archived: false,
+      };
+      columns.push(column);
     }
+    raw.column = column.id;
+
+    const parsedTask = parseImportedTask(
+      row,
+      raw,
+      columns.map((c) => c.id)
+    );
+    if ("error" in parsedTask) {
+      errors.push({ row, message: parsedTask.error });
+    } else {
+      tasks.push(parsedTask.task);
+    }
+  });
+
+  if (columns.length === 0) return { error: "CSV has no task rows" };
+
+  return {
+    name: null,
+    columns,
+    labels: [],
+    tasks,
+    errors,
+    headers,
+    mapping: resolved,
+  };
+}
+
+// Ownership only moves through an explicit transfer, and only the owner can
+// hand out admin rights.
+function canAssignRole(callerRole: TeamRole, role: unknown): role is TeamRole {
+  if (!TEAM_ROLES.includes(role as TeamRole) || role === "owner") return false;
+  return callerRole === "owner" || role !== "admin";
+}
+
+function publicUser(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    avatarUrl: user.avatarUrl ?? null,
+    timezone: user.timezone ?? null,
+  };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Opaque pagination cursors: base64url-encoded JSON of the last item's sort key
+function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor<T>(cursor: unknown): T | null {
+  if (typeof cursor !== "string" || !cursor) return null;
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
   }
 }
 
+function parseLimit(value: unknown, fallback = 20, max = 100): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) return fallback;
+  return Math.min(limit, max);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
 // WebSocket client with user info
 interface WebSocketClient extends WebSocket {
+  id?: string; // lets fan-out messages skip the socket they came from
   userId?: string;
-  boardId?: string;
+  sessionId?: string;
+  boardIds?: Set<string>; // boards this socket is subscribed to
+  isAlive?: boolean; // cleared on each heartbeat, set again by the pong
 }
 
 (async () => {
   const mongo = new MongoClient(MONGODB_URI);
   await mongo.connect();
   const db = mongo.db("taskboard");
+
+  // Multi-document transactions need a replica set or a sharded cluster. On
+  // a standalone mongod, work that would run in one runs as plain ordered
+  // writes instead: it still validates before writing anything, but
+  // concurrent writes can interleave with it.
+  const hello = await db.admin().command({ hello: 1 });
+  const supportsTransactions =
+    Boolean(hello.setName) || hello.msg === "isdbgrid";
+  if (!supportsTransactions) {
+    console.warn(
+      "MongoDB is not a replica set: reorders and imports run without transactions"
+    );
+  }
+
+  async function runInTransaction<T>(
+    work: (session?: ClientSession) => Promise<T>
+  ): Promise<T> {
+    if (!supportsTransactions) return work();
+    const session = mongo.startSession();
+    try {
+      let result: T;
+      await session.withTransaction(async () => {
+        result = await work(session);
+      });
+      return result!;
+    } finally {
+      await session.endSession();
+    }
+  }
   const usersCol = db.collection<User>("users");
   const teamsCol = db.collection<Team>("teams");
   const boardsCol = db.collection<Board>("boards");
   const tasksCol = db.collection<Task>("tasks");
+  const labelsCol = db.collection<Label>("labels");
+  const commentsCol = db.collection<Comment>("comments");
+  const activitiesCol = db.collection<Activity>("activities");
+  const invitationsCol = db.collection<Invitation>("invitations");
+  const sessionsCol = db.collection<Session>("sessions");
+  const passwordResetsCol = db.collection<PasswordReset>("password_resets");
+  const emailChangesCol = db.collection<EmailChange>("email_changes");
+  const boardEventsCol = db.collection<BoardEventRecord>("board_events");
+  const webhooksCol = db.collection<Webhook>("webhooks");
+  const webhookDeliveriesCol =
+    db.collection<WebhookDelivery>("webhook_deliveries");
+  const accessTokensCol = db.collection<PersonalAccessToken>(
+    "personal_access_tokens"
+  );
 
   // Create indexes
   await usersCol.createIndex({ email: 1 }, { unique: true });
-  await tasksCol.createIndex({ boardId: 1, column: 1, order: 1 });
+  await usersCol.createIndex({ name: 1, id: 1 });
+  await migrateTaskRanks();
+  await tasksCol.updateMany(
+    { version: { $exists: false } },
+    { $set: { version: 1 } }
+  );
+  await boardsCol.updateMany(
+    { version: { $exists: false } },
+    { $set: { version: 1 } }
+  );
+  await tasksCol.createIndex({ boardId: 1, column: 1, rank: 1 });
+  await tasksCol.createIndex({ boardId: 1, createdAt: -1 });
+  await labelsCol.createIndex({ boardId: 1, name: 1 }, { unique: true });
+  await commentsCol.createIndex({ taskId: 1, createdAt: 1 });
+  await commentsCol.createIndex({ boardId: 1 });
+  await activitiesCol.createIndex({ boardId: 1, createdAt: -1, id: 1 });
+  await activitiesCol.createIndex({ taskId: 1, createdAt: -1 });
+  await activitiesCol.createIndex({ teamId: 1, createdAt: -1, id: 1 });
+  await invitationsCol.createIndex({ email: 1, status: 1 });
+  await invitationsCol.createIndex({ teamId: 1, status: 1 });
+  await sessionsCol.createIndex({ id: 1 }, { unique: true });
+  await sessionsCol.createIndex({ userId: 1, revokedAt: 1 });
+  await passwordResetsCol.createIndex({ tokenHash: 1 }, { unique: true });
+  await emailChangesCol.createIndex({ tokenHash: 1 }, { unique: true });
+  await boardEventsCol.createIndex({ boardId: 1, seq: 1 }, { unique: true });
+  await webhooksCol.createIndex({ boardId: 1 });
+  await webhooksCol.createIndex({ teamId: 1 });
+  await webhookDeliveriesCol.createIndex({
+    webhookId: 1,
+    createdAt: -1,
+    id: 1,
+  });
+  await webhookDeliveriesCol.createIndex({ status: 1, nextAttemptAt: 1 });
+  await accessTokensCol.createIndex({ tokenHash: 1 }, { unique: true });
+  await accessTokensCol.createIndex({ userId: 1, createdAt: -1 });
+
+  const mailer = createMailer();
 
   const app = express();
-  app.use(cors());
-  app.use(express.json());
+  app.use(cors({ exposedHeaders: ["ETag"] }));
+  app.use(express.json({ limit: REQUEST_BODY_LIMIT }));
 
   // ================= Auth Middleware =================
   const authenticateToken = (
@@ -111,12 +1159,206 @@ interface WebSocketClient extends WebSocket {
       return res.status(401).json({ error: "Access token required" });
     }
 
-    jwt.verify(token, JWT_SECRET, (err: any, user: JwtPayload) => {
-      if (err) return res.status(403).json({ error: "Invalid token" });
-      req.user = user;
-      next();
-    });
-  };
+    if (token.startsWith(PERSONAL_TOKEN_PREFIX)) {
+      return authenticatePersonalToken(token, req, res, next);
+    }
+
+    jwt.verify(token, JWT_SECRET, async (err: any, user: JwtPayload) => {
+      if (err || !user.userId || !user.sessionId) {
+        return res.status(403).json({ error: "Invalid token" });
+      }
+
+      try {
+        if (!(await isSessionActive(user.sessionId))) {
+          return res.status(401).json({ error: "Session revoked" });
+        }
+      } catch (error) {
+        console.error("Session lookup error:", error);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+
+      req.user = {
+        userId: user.userId,
+        email: user.email,
+        sessionId: user.sessionId,
+        tokenId: null,
+      };
+      next();
+    });
+  };
+
+  async function authenticatePersonalToken(
+    token: string,
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const pat = await accessTokensCol.findOne({
+        tokenHash: hashToken(token),
+      });
+      if (
+        !pat ||
+        pat.revokedAt !== null ||
+        (pat.expiresAt !== null && pat.expiresAt <= Date.now())
+      ) {
+        return res.status(401).json({ error: "Invalid token" });
+      }
+
+      const user = await usersCol.findOne({ id: pat.userId });
+      if (!user) return res.status(401).json({ error: "Invalid token" });
+
+      if (pat.scope === "read" && !["GET", "HEAD"].includes(req.method)) {
+        return res.status(403).json({ error: "Token is read-only" });
+      }
+      if (
+        typeof req.params.teamId === "string" &&
+        !tokenAllowsTeam(req.params.teamId, pat)
+      ) {
+        return res
+          .status(403)
+          .json({ error: "Token does not grant access to this team" });
+      }
+
+      // Coarse-grained on purpose: one write per token per minute at most
+      const now = Date.now();
+      if (pat.lastUsedAt === null || now - pat.lastUsedAt > 60 * 1000) {
+        accessTokensCol
+          .updateOne({ id: pat.id }, { $set: { lastUsedAt: now } })
+          .catch((error) => console.error("Token usage update error:", error));
+      }
+
+      req.user = {
+        userId: user.id,
+        email: user.email,
+        sessionId: null,
+        tokenId: pat.id,
+      };
+      tokenLimits.run({ boardIds: pat.boardIds, teamIds: pat.teamIds }, next);
+    } catch (error) {
+      console.error("Token lookup error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+
+  // For account and credential routes, which personal access tokens must not
+  // reach; chain after authenticateToken
+  const requireSession = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user?.sessionId) {
+      return res
+        .status(403)
+        .json({ error: "This action requires signing in with a password" });
+    }
+    next();
+  };
+
+  // ================= Sessions =================
+  // Access tokens are short-lived JWTs bound to a session; refresh tokens are
+  // opaque "<sessionId>.<secret>" strings whose secret rotates on every use.
+  async function isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await sessionsCol.findOne({ id: sessionId });
+    return (
+      !!session && session.revokedAt === null && session.expiresAt > Date.now()
+    );
+  }
+
+  function signAccessToken(user: User, sessionId: string) {
+    const payload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+    };
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+  }
+
+  async function createSession(user: User, req: Request) {
+    const now = Date.now();
+    const secret = crypto.randomBytes(32).toString("hex");
+    const session: Session = {
+      id: uuidv4(),
+      userId: user.id,
+      refreshTokenHash: hashToken(secret),
+      userAgent: req.headers["user-agent"],
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: now + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+      revokedAt: null,
+    };
+
+    await sessionsCol.insertOne(session);
+
+    return {
+      token: signAccessToken(user, session.id),
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  async function revokeSessions(filter: Filter<Session>) {
+    const sessions = await sessionsCol
+      .find({ ...filter, revokedAt: null }, { projection: { id: 1 } })
+      .toArray();
+    if (sessions.length === 0) return;
+
+    const sessionIds = sessions.map((s) => s.id);
+    await sessionsCol.updateMany(
+      { id: { $in: sessionIds } },
+      { $set: { revokedAt: Date.now() } }
+    );
+    closeSessionSockets(sessionIds);
+  }
+
+  // ================= Access Control =================
+  // Personal boards belong to their owner alone; team boards defer to the
+  // caller's role on the team.
+  async function getBoardRole(
+    board: Board,
+    userId: string
+  ): Promise<TeamRole | null> {
+    if (board.isPersonal || !board.teamId) {
+      return board.ownerId === userId ? "owner" : null;
+    }
+
+    const team = await teamsCol.findOne({ id: board.teamId, deletedAt: null });
+    return team ? getTeamRole(team, userId) : null;
+  }
+
+  async function authorizeBoard(
+    board: Board,
+    userId: string,
+    minRole: TeamRole
+  ): Promise<{ role: TeamRole } | { error: string }> {
+    if (!tokenAllowsBoard(board)) {
+      return { error: "Token does not grant access to this board" };
+    }
+    const role = await getBoardRole(board, userId);
+    if (!role) {
+      return {
+        error:
+          board.isPersonal || !board.teamId
+            ? "Access denied"
+            : "Not a member of this team",
+      };
+    }
+    if (!hasRole(role, minRole)) {
+      return { error: "Insufficient permissions" };
+    }
+    return { role };
+  }
+
+  // Board settings belong to whoever created the board, plus team admins.
+  // The creator loses that right once demoted below member on the team.
+  async function authorizeBoardAdmin(
+    board: Board,
+    userId: string
+  ): Promise<{ role: TeamRole } | { error: string }> {
+    const access = await authorizeBoard(board, userId, "viewer");
+    if ("error" in access) return access;
+    const isOwner = board.ownerId === userId && hasRole(access.role, "member");
+    if (!isOwner && !hasRole(access.role, "admin")) {
+      return { error: "Only board owner or team admins can manage this board" };
+    }
+    return access;
+  }
 
   // ================= Auth Routes =================
   app.post("/auth/register", async (req: Request, res: Response) => {
@@ -145,18 +1387,17 @@ interface WebSocketClient extends WebSocket {
 
       await usersCol.insertOne(user);
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email },
-        JWT_SECRET,
-        { expiresIn: "24h" }
+      // Attach invitations sent before this email had an account
+      await invitationsCol.updateMany(
+        { email, status: "pending", inviteeId: null },
+        { $set: { inviteeId: user.id } }
       );
+
+      const { token, refreshToken } = await createSession(user, req);
       res.json({
         token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-        },
+        refreshToken,
+        user: publicUser(user),
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -177,18 +1418,11 @@ interface WebSocketClient extends WebSocket {
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email },
-        JWT_SECRET,
-        { expiresIn: "24h" }
-      );
+      const { token, refreshToken } = await createSession(user, req);
       res.json({
         token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-        },
+        refreshToken,
+        user: publicUser(user),
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -196,6 +1430,214 @@ interface WebSocketClient extends WebSocket {
     }
   });
 
+  app.post("/auth/refresh", async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body;
+      if (typeof refreshToken !== "string" || !refreshToken.includes(".")) {
+        return res.status(400).json({ error: "Refresh token required" });
+      }
+
+      const [sessionId, secret] = refreshToken.split(".");
+      const session = await sessionsCol.findOne({ id: sessionId });
+      if (
+        !session ||
+        session.revokedAt !== null ||
+        session.expiresAt <= Date.now()
+      ) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      // A stale secret means the token was already rotated, so someone is
+      // replaying it; kill the session rather than guess who is legitimate.
+      if (session.refreshTokenHash !== hashToken(secret)) {
+        await revokeSessions({ id: session.id });
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      const user = await usersCol.findOne({ id: session.userId });
+      if (!user) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      const nextSecret = crypto.randomBytes(32).toString("hex");
+      const rotated = await sessionsCol.updateOne(
+        { id: session.id, refreshTokenHash: session.refreshTokenHash },
+        {
+          $set: {
+            refreshTokenHash: hashToken(nextSecret),
+            lastUsedAt: Date.now(),
+          },
+        }
+      );
+      if (rotated.modifiedCount === 0) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      res.json({
+        token: signAccessToken(user, session.id),
+        refreshToken: `${session.id}.${nextSecret}`,
+      });
+    } catch (error) {
+      console.error("Refresh token error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post(
+    "/auth/logout",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        await revokeSessions({ id: req.user!.sessionId! });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Logout error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/auth/logout-all",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        await revokeSessions({ userId: req.user!.userId });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Logout all error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Password Routes =================
+  app.post("/auth/password/forgot", async (req: Request, res: Response) => {
+    try {
+      const { email } = req.body;
+      if (!email) {
+        return res.status(400).json({ error: "Email required" });
+      }
+
+      // Same response whether or not the account exists, so this endpoint
+      // can't be used to probe for registered emails
+      const user = await usersCol.findOne({ email });
+      if (user) {
+        const now = Date.now();
+        const token = crypto.randomBytes(32).toString("hex");
+
+        // Only the most recent link is usable
+        await passwordResetsCol.updateMany(
+          { userId: user.id, usedAt: null },
+          { $set: { usedAt: now } }
+        );
+        await passwordResetsCol.insertOne({
+          id: uuidv4(),
+          userId: user.id,
+          tokenHash: hashToken(token),
+          createdAt: now,
+          expiresAt: now + PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+          usedAt: null,
+        });
+
+        mailer
+          .send({
+            to: user.email,
+            subject: "Reset your password",
+            text:
+              `Hi ${user.name},\n\n` +
+              `Use the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes.\n\n` +
+              `${APP_URL}/reset-password?token=${token}\n\n` +
+              "If you didn't ask for this, you can ignore this email.",
+          })
+          .catch((error) => console.error("Password reset mail error:", error));
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/auth/password/reset", async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+      if (!token || !password) {
+        return res.status(400).json({ error: "Token and password required" });
+      }
+
+      const now = Date.now();
+      // Claim the token atomically so it can only ever be used once
+      const reset = await passwordResetsCol.findOneAndUpdate(
+        { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now } }
+      );
+      if (!reset) {
+        return res
+          .status(400)
+          .json({ error: "Invalid or expired reset token" });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 12);
+      await usersCol.updateOne(
+        { id: reset.userId },
+        { $set: { password: hashedPassword } }
+      );
+
+      // Whoever had the old password shouldn't stay logged in
+      await revokeSessions({ userId: reset.userId });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put(
+    "/auth/password",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const { currentPassword, newPassword } = req.body;
+        const { userId, sessionId } = req.user!;
+
+        if (!currentPassword || !newPassword) {
+          return res
+            .status(400)
+            .json({ error: "Current and new password required" });
+        }
+
+        const user = await usersCol.findOne({ id: userId });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        if (!(await bcrypt.compare(currentPassword, user.password))) {
+          return res.status(401).json({ error: "Current password is incorrect" });
+        }
+
+        const hashedPassword = await bcrypt.hash(newPassword, 12);
+        await usersCol.updateOne(
+          { id: userId },
+          { $set: { password: hashedPassword } }
+        );
+
+        // Keep this device signed in, log out every other one
+        await revokeSessions({ userId, id: { $ne: sessionId } });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Change password error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
   app.get(
     "/auth/me",
     authenticateToken,
@@ -207,11 +1649,7 @@ interface WebSocketClient extends WebSocket {
         }
 
         res.json({
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-          },
+          user: publicUser(user),
         });
       } catch (error) {
         console.error("Get user error:", error);
@@ -220,539 +1658,5003 @@ interface WebSocketClient extends WebSocket {
     }
   );
 
-  // user route
+  // ================= Profile Routes =================
+  app.patch(
+    "/auth/me",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const { name, email, avatarUrl, timezone } = req.body;
+        const userId = req.user!.userId;
 
+        const user = await usersCol.findOne({ id: userId });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
 
-// Add this to your backend routes
-app.get("/users", authenticateToken, async (req: Request, res: Response) => {
-  try {
-    const users = await usersCol.find({}, { projection: { id: 1, email: 1, name: 1 } }).toArray();
-    res.json(users);
-  } catch (error) {
-    console.error("Get users error:", error);
-    res.status(500).json({ error: "Internal server error" });
-  }
-});
+        const updateData: Partial<User> = {};
+        if (name !== undefined) {
+          if (typeof name !== "string" || !name.trim()) {
+            return res.status(400).json({ error: "Name cannot be empty" });
+          }
+          updateData.name = name.trim();
+        }
+        if (avatarUrl !== undefined) {
+          if (avatarUrl !== null && !isValidUrl(avatarUrl)) {
+            return res.status(400).json({ error: "Invalid avatar URL" });
+          }
+          updateData.avatarUrl = avatarUrl;
+        }
+        if (timezone !== undefined) {
+          if (timezone !== null && !isValidTimezone(timezone)) {
+            return res.status(400).json({ error: "Invalid timezone" });
+          }
+          updateData.timezone = timezone;
+        }
 
-  // ================= Team Routes =================
-  app.post("/teams", authenticateToken, async (req: Request, res: Response) => {
-    try {
-      const { name } = req.body;
-      const userId = req.user!.userId;
+        // A new email only takes effect once the link sent to it is opened
+        let emailVerificationSent = false;
+        if (email !== undefined && email !== user.email) {
+          if (typeof email !== "string" || !email) {
+            return res.status(400).json({ error: "Email cannot be empty" });
+          }
 
-      if (!name) {
-        return res.status(400).json({ error: "Team name required" });
+          if (await usersCol.findOne({ email })) {
+            return res.status(400).json({ error: "Email already in use" });
+          }
+
+          const now = Date.now();
+          const token = crypto.randomBytes(32).toString("hex");
+          await emailChangesCol.updateMany(
+            { userId, usedAt: null },
+            { $set: { usedAt: now } }
+          );
+          await emailChangesCol.insertOne({
+            id: uuidv4(),
+            userId,
+            email,
+            tokenHash: hashToken(token),
+            createdAt: now,
+            expiresAt: now + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000,
+            usedAt: null,
+          });
+
+          mailer
+            .send({
+              to: email,
+              subject: "Confirm your new email address",
+              text:
+                `Hi ${user.name},\n\n` +
+                "Confirm this address for your account by opening the link below.\n\n" +
+                `${APP_URL}/verify-email?token=${token}`,
+            })
+            .catch((error) =>
+              console.error("Email change mail error:", error)
+            );
+          emailVerificationSent = true;
+        }
+
+        if (Object.keys(updateData).length > 0) {
+          await usersCol.updateOne({ id: userId }, { $set: updateData });
+        }
+
+        const updatedUser = await usersCol.findOne({ id: userId });
+        res.json({
+          user: publicUser(updatedUser!),
+          emailVerificationSent,
+        });
+      } catch (error) {
+        console.error("Update profile error:", error);
+        res.status(500).json({ error: "Internal server error" });
       }
+    }
+  );
 
-      const team: Team = {
-        id: uuidv4(),
-        name,
-        ownerId: userId,
-        members: [userId],
-        createdAt: Date.now(),
-      };
+  app.post(
+    "/auth/me/email/verify",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const { token } = req.body;
+        const userId = req.user!.userId;
 
-      await teamsCol.insertOne(team);
-      res.json(team);
-    } catch (error) {
-      console.error("Create team error:", error);
-      res.status(500).json({ error: "Internal server error" });
+        if (!token) {
+          return res.status(400).json({ error: "Token required" });
+        }
+
+        const now = Date.now();
+        const change = await emailChangesCol.findOneAndUpdate(
+          {
+            tokenHash: hashToken(token),
+            userId,
+            usedAt: null,
+            expiresAt: { $gt: now },
+          },
+          { $set: { usedAt: now } }
+        );
+        if (!change) {
+          return res
+            .status(400)
+            .json({ error: "Invalid or expired verification token" });
+        }
+
+        try {
+          await usersCol.updateOne(
+            { id: userId },
+            { $set: { email: change.email } }
+          );
+        } catch (error: any) {
+          if (error?.code === 11000) {
+            return res.status(400).json({ error: "Email already in use" });
+          }
+          throw error;
+        }
+
+        // Invitations already waiting on the new address now belong to this user
+        await invitationsCol.updateMany(
+          { email: change.email, status: "pending", inviteeId: null },
+          { $set: { inviteeId: userId } }
+        );
+
+        const user = await usersCol.findOne({ id: userId });
+        res.json({ user: publicUser(user!) });
+      } catch (error) {
+        console.error("Verify email error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
     }
-  });
+  );
+
+  app.delete(
+    "/auth/me",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const { password, ownedTeams = "transfer" } = req.body ?? {};
+        const userId = req.user!.userId;
+
+        if (ownedTeams !== "transfer" && ownedTeams !== "delete") {
+          return res
+            .status(400)
+            .json({ error: "ownedTeams must be 'transfer' or 'delete'" });
+        }
+
+        const user = await usersCol.findOne({ id: userId });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        if (!password || !(await bcrypt.compare(password, user.password))) {
+          return res.status(401).json({ error: "Password is incorrect" });
+        }
+
+        // Personal boards go with the account
+        const personalBoards = await boardsCol
+          .find({ ownerId: userId, isPersonal: true })
+          .toArray();
+        await purgeBoards(personalBoards.map((b) => b.id));
+
+        const teams = await teamsCol
+          .find({ $or: [{ ownerId: userId }, { members: userId }] })
+          .toArray();
+        for (const team of teams) {
+          if (team.ownerId !== userId) {
+            await removeTeamMember(team, userId, "reassign");
+            continue;
+          }
+
+          const successor = pickSuccessor(team, userId);
+          if (ownedTeams === "delete" || !successor) {
+            await purgeTeam(team.id);
+            continue;
+          }
+
+          await teamsCol.updateOne(
+            { id: team.id },
+            {
+              $set: {
+                ownerId: successor,
+                [`roles.${successor}`]: "owner",
+              },
+            }
+          );
+          await removeTeamMember(
+            { ...team, ownerId: successor },
+            userId,
+            "reassign",
+            successor
+          );
+        }
+
+        await revokeSessions({ userId });
+        await Promise.all([
+          sessionsCol.deleteMany({ userId }),
+          passwordResetsCol.deleteMany({ userId }),
+          emailChangesCol.deleteMany({ userId }),
+          accessTokensCol.deleteMany({ userId }),
+          invitationsCol.updateMany(
+            { email: user.email, status: "pending" },
+            { $set: { status: "revoked", respondedAt: Date.now() } }
+          ),
+        ]);
+        await usersCol.deleteOne({ id: userId });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete account error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Access Token Routes =================
+  function sanitizeAccessToken(pat: PersonalAccessToken) {
+    const { _id, tokenHash, ...rest } = pat;
+    return rest;
+  }
+
+  // The token is returned in this response only; afterwards only its prefix
+  // is shown
+  app.post(
+    "/auth/tokens",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const {
+          name,
+          scope = "read",
+          boardIds = [],
+          teamIds = [],
+          expiresInDays = null,
+        } = req.body ?? {};
+        const userId = req.user!.userId;
+
+        if (typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Name is required" });
+        }
+        if (name.trim().length > 100) {
+          return res
+            .status(400)
+            .json({ error: "Name must be at most 100 characters" });
+        }
+        if (scope !== "read" && scope !== "write") {
+          return res
+            .status(400)
+            .json({ error: 'scope must be "read" or "write"' });
+        }
+        if (
+          expiresInDays !== null &&
+          (!Number.isInteger(expiresInDays) || expiresInDays < 1)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "expiresInDays must be a positive integer" });
+        }
+        if (
+          !Array.isArray(boardIds) ||
+          !boardIds.every((id) => typeof id === "string") ||
+          !Array.isArray(teamIds) ||
+          !teamIds.every((id) => typeof id === "string")
+        ) {
+          return res
+            .status(400)
+            .json({ error: "boardIds and teamIds must be arrays of ids" });
+        }
+
+        // A token can only be limited to boards and teams the user can see
+        for (const boardId of boardIds) {
+          const loaded = await loadBoardForUser(boardId, userId, "viewer");
+          if ("error" in loaded) {
+            return res.status(400).json({ error: `Unknown board: ${boardId}` });
+          }
+        }
+        for (const teamId of teamIds) {
+          const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+          if (!team || !getTeamRole(team, userId)) {
+            return res.status(400).json({ error: `Unknown team: ${teamId}` });
+          }
+        }
+
+        const token = `${PERSONAL_TOKEN_PREFIX}${crypto
+          .randomBytes(32)
+          .toString("base64url")}`;
+        const now = Date.now();
+        const pat: PersonalAccessToken = {
+          id: uuidv4(),
+          userId,
+          name: name.trim(),
+          tokenHash: hashToken(token),
+          tokenPrefix: token.slice(0, PERSONAL_TOKEN_PREFIX.length + 6),
+          scope,
+          boardIds: [...new Set<string>(boardIds)],
+          teamIds: [...new Set<string>(teamIds)],
+          createdAt: now,
+          lastUsedAt: null,
+          expiresAt:
+            expiresInDays === null
+              ? null
+              : now + expiresInDays * 24 * 60 * 60 * 1000,
+          revokedAt: null,
+        };
+        await accessTokensCol.insertOne(pat);
+
+        res.json({ ...sanitizeAccessToken(pat), token });
+      } catch (error) {
+        console.error("Create access token error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/auth/tokens",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const tokens = await accessTokensCol
+          .find({ userId: req.user!.userId, revokedAt: null })
+          .sort({ createdAt: -1 })
+          .toArray();
+        res.json(tokens.map(sanitizeAccessToken));
+      } catch (error) {
+        console.error("List access tokens error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/auth/tokens/:tokenId",
+    authenticateToken,
+    requireSession,
+    async (req: Request, res: Response) => {
+      try {
+        const result = await accessTokensCol.updateOne(
+          {
+            id: req.params.tokenId,
+            userId: req.user!.userId,
+            revokedAt: null,
+          },
+          { $set: { revokedAt: Date.now() } }
+        );
+        if (result.matchedCount === 0) {
+          return res.status(404).json({ error: "Token not found" });
+        }
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Revoke access token error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= User Routes =================
+  // Lists people the caller shares a team with. `email` is an exact-match
+  // lookup for the invite dialog and is the only way to find someone outside
+  // those teams.
+  app.get("/users", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { q, email, teamId, cursor } = req.query;
+      const limit = parseLimit(req.query.limit);
+      const projection = { _id: 0, id: 1, email: 1, name: 1, avatarUrl: 1 };
+
+      if (typeof email === "string" && email) {
+        const match = await usersCol.findOne({ email }, { projection });
+        return res.json({ users: match ? [match] : [], nextCursor: null });
+      }
+
+      const teams = await teamsCol
+        .find(
+          teamId
+            ? { id: String(teamId), members: userId, deletedAt: null }
+            : { members: userId, deletedAt: null },
+          { projection: { id: 1, members: 1 } }
+        )
+        .toArray();
+      if (teamId && teams.length === 0) {
+        return res.status(403).json({ error: "Not a member of this team" });
+      }
+      if (teamId && !tokenAllowsTeam(String(teamId))) {
+        return res
+          .status(403)
+          .json({ error: "Token does not grant access to this team" });
+      }
+
+      const memberIds = new Set<string>([userId]);
+      teams
+        .filter((team) => tokenAllowsTeam(team.id))
+        .forEach((team) => team.members.forEach((id) => memberIds.add(id)));
+
+      const filter: Filter<User> = { id: { $in: [...memberIds] } };
+      if (typeof q === "string" && q.trim()) {
+        const prefix = new RegExp(`^${escapeRegex(q.trim())}`, "i");
+        filter.$or = [{ name: prefix }, { email: prefix }];
+      }
+
+      const after = decodeCursor<{ name: string; id: string }>(cursor);
+      if (cursor && !after) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      if (after) {
+        filter.$and = [
+          {
+            $or: [
+              { name: { $gt: after.name } },
+              { name: after.name, id: { $gt: after.id } },
+            ],
+          },
+        ];
+      }
+
+      const users = await usersCol
+        .find(filter, { projection })
+        .sort({ name: 1, id: 1 })
+        .limit(limit + 1)
+        .toArray();
+
+      const page = users.slice(0, limit);
+      const last = page[page.length - 1];
+      res.json({
+        users: page,
+        nextCursor:
+          users.length > limit && last
+            ? encodeCursor({ name: last.name, id: last.id })
+            : null,
+      });
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ================= Team Routes =================
+  app.post("/teams", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const { name } = req.body;
+      const userId = req.user!.userId;
+
+      if (!name) {
+        return res.status(400).json({ error: "Team name required" });
+      }
+      if (hasTokenLimits(tokenLimits.getStore())) {
+        return res
+          .status(403)
+          .json({ error: "Token does not grant access to new teams" });
+      }
+
+      const team: Team = {
+        id: uuidv4(),
+        name,
+        ownerId: userId,
+        members: [userId],
+        roles: { [userId]: "owner" },
+        createdAt: Date.now(),
+      };
+
+      await teamsCol.insertOne(team);
+      res.json(team);
+    } catch (error) {
+      console.error("Create team error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/teams", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const teams = await teamsCol
+        .find({
+          $or: [{ ownerId: userId }, { members: userId }],
+          deletedAt: null,
+        })
+        .toArray();
+      res.json(teams.filter((t) => tokenAllowsTeam(t.id)));
+    } catch (error) {
+      console.error("Get teams error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get(
+    "/teams/:teamId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({
+          id: teamId,
+          $or: [{ ownerId: userId }, { members: userId }],
+          deletedAt: null,
+        });
+
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        res.json(team);
+      } catch (error) {
+        console.error("Get team error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/teams/:teamId/invite",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const { email, role = "member" } = req.body;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        const callerRole = getTeamRole(team, userId);
+        if (!hasRole(callerRole, "admin")) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner or admins can invite members" });
+        }
+
+        if (!canAssignRole(callerRole!, role)) {
+          return res.status(400).json({ error: "Invalid role" });
+        }
+
+        if (!email) {
+          return res.status(400).json({ error: "Email required" });
+        }
+
+        const invitee = await usersCol.findOne({ email });
+        if (invitee && team.members.includes(invitee.id)) {
+          return res.status(400).json({ error: "User already in team" });
+        }
+
+        await expireInvitations({ teamId, email });
+        const pending = await invitationsCol.findOne({
+          teamId,
+          email,
+          status: "pending",
+        });
+        if (pending) {
+          return res.status(400).json({ error: "Invitation already pending" });
+        }
+
+        const now = Date.now();
+        const invitation: Invitation = {
+          id: uuidv4(),
+          teamId,
+          email,
+          role,
+          invitedBy: userId,
+          inviteeId: invitee ? invitee.id : null,
+          status: "pending",
+          createdAt: now,
+          expiresAt: now + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
+        };
+
+        await invitationsCol.insertOne(invitation);
+        await recordActivity({
+          action: "team.invited",
+          actorId: userId,
+          teamId,
+          after: { invitationId: invitation.id, email, role },
+        });
+
+        const token = signInviteToken(invitation);
+        mailer
+          .send({
+            to: email,
+            subject: `You've been invited to join ${team.name}`,
+            text:
+              `You've been invited to join the team "${team.name}" as ${role}.\n\n` +
+              `${APP_URL}/invitations/accept?token=${token}\n\n` +
+              `This invitation expires in ${INVITE_TTL_DAYS} days.`,
+          })
+          .catch((error) => console.error("Invitation mail error:", error));
+
+        res.json({
+          invitation: sanitizeInvitation(invitation),
+          token,
+        });
+      } catch (error) {
+        console.error("Invite to team error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/teams/:teamId/invitations",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (!hasRole(getTeamRole(team, userId), "admin")) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner or admins can view invitations" });
+        }
+
+        await expireInvitations({ teamId });
+        const invitations = await invitationsCol
+          .find({ teamId })
+          .sort({ createdAt: -1 })
+          .toArray();
+        res.json(invitations.map(sanitizeInvitation));
+      } catch (error) {
+        console.error("Get team invitations error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/teams/:teamId/invitations/:invitationId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId, invitationId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (!hasRole(getTeamRole(team, userId), "admin")) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner or admins can revoke invitations" });
+        }
+
+        const result = await invitationsCol.updateOne(
+          { id: invitationId, teamId, status: "pending" },
+          { $set: { status: "revoked", respondedAt: Date.now() } }
+        );
+        if (result.matchedCount === 0) {
+          return res
+            .status(404)
+            .json({ error: "Pending invitation not found" });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Revoke invitation error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/teams/:teamId/members/:memberId/role",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId, memberId } = req.params;
+        const { role } = req.body;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        const callerRole = getTeamRole(team, userId);
+        if (!hasRole(callerRole, "admin")) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner or admins can change roles" });
+        }
+
+        const currentRole = getTeamRole(team, memberId);
+        if (!currentRole) {
+          return res.status(404).json({ error: "User not in team" });
+        }
+
+        if (currentRole === "owner") {
+          return res
+            .status(400)
+            .json({ error: "The team owner's role cannot be changed" });
+        }
+
+        // Admins may manage members and viewers, but not their peers
+        if (callerRole !== "owner" && currentRole === "admin") {
+          return res
+            .status(403)
+            .json({ error: "Only team owner can change an admin's role" });
+        }
+
+        if (!canAssignRole(callerRole!, role)) {
+          return res.status(400).json({ error: "Invalid role" });
+        }
+
+        await teamsCol.updateOne(
+          { id: teamId },
+          { $set: { [`roles.${memberId}`]: role } }
+        );
+
+        const updatedTeam = await teamsCol.findOne({
+          id: teamId,
+          deletedAt: null,
+        });
+        res.json(updatedTeam);
+      } catch (error) {
+        console.error("Change member role error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  type BoardPolicy = "reassign" | "keep";
+
+  // Drops a member from the team. Their team boards are either handed to
+  // `reassignTo` (the team owner by default) or left under their name.
+  async function removeTeamMember(
+    team: Team,
+    memberId: string,
+    policy: BoardPolicy,
+    reassignTo: string = team.ownerId
+  ) {
+    await teamsCol.updateOne(
+      { id: team.id },
+      { $pull: { members: memberId }, $unset: { [`roles.${memberId}`]: "" } }
+    );
+
+    if (policy === "reassign") {
+      await boardsCol.updateMany(
+        { teamId: team.id, ownerId: memberId },
+        { $set: { ownerId: reassignTo } }
+      );
+    }
+
+    const teamBoards = await boardsCol
+      .find({ teamId: team.id }, { projection: { id: 1 } })
+      .toArray();
+    const boardIds = teamBoards.map((b) => b.id);
+
+    // Former members can't stay assigned to the team's work
+    await tasksCol.updateMany(
+      { boardId: { $in: boardIds }, assigneeIds: memberId },
+      { $pull: { assigneeIds: memberId }, $inc: { version: 1 } }
+    );
+
+    disconnectUserFromBoards(memberId, boardIds, "Removed from team");
+  }
+
+  function parseBoardPolicy(
+    team: Team,
+    policy: unknown,
+    reassignTo: unknown
+  ): { policy: BoardPolicy; reassignTo: string } | { error: string } {
+    if (policy !== undefined && policy !== "reassign" && policy !== "keep") {
+      return { error: "boards must be 'reassign' or 'keep'" };
+    }
+    if (reassignTo !== undefined) {
+      if (typeof reassignTo !== "string" || !team.members.includes(reassignTo)) {
+        return { error: "reassignTo must be a team member" };
+      }
+    }
+    return {
+      policy: (policy as BoardPolicy | undefined) ?? "reassign",
+      reassignTo: (reassignTo as string | undefined) ?? team.ownerId,
+    };
+  }
+
+  // Highest-ranked remaining member, earliest joiner first
+  function pickSuccessor(team: Team, leavingId: string): string | null {
+    const candidates = team.members.filter((id) => id !== leavingId);
+    if (candidates.length === 0) return null;
+    return candidates.reduce((best, id) =>
+      ROLE_RANK[getTeamRole(team, id)!] > ROLE_RANK[getTeamRole(team, best)!]
+        ? id
+        : best
+    );
+  }
+
+  // Permanently delete team and all its boards and tasks
+  async function purgeTeam(teamId: string) {
+    await teamsCol.deleteOne({ id: teamId });
+
+    const teamBoards = await boardsCol.find({ teamId }).toArray();
+    await purgeBoards(teamBoards.map((board) => board.id));
+    await purgeWebhooks({ teamId });
+    await invitationsCol.updateMany(
+      { teamId, status: "pending" },
+      { $set: { status: "revoked", respondedAt: Date.now() } }
+    );
+  }
+
+  app.delete(
+    "/teams/:teamId/members/:memberId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId, memberId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        const callerRole = getTeamRole(team, userId);
+        if (!hasRole(callerRole, "admin")) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner or admins can remove members" });
+        }
+
+        const memberRole = getTeamRole(team, memberId);
+        if (!memberRole) {
+          return res.status(404).json({ error: "User not in team" });
+        }
+
+        if (memberRole === "owner") {
+          return res
+            .status(400)
+            .json({ error: "Transfer ownership before removing the owner" });
+        }
+
+        if (callerRole !== "owner" && memberRole === "admin") {
+          return res
+            .status(403)
+            .json({ error: "Only team owner can remove an admin" });
+        }
+
+        const options = parseBoardPolicy(
+          team,
+          req.query.boards,
+          req.query.reassignTo
+        );
+        if ("error" in options) {
+          return res.status(400).json({ error: options.error });
+        }
+        if (options.reassignTo === memberId) {
+          return res
+            .status(400)
+            .json({ error: "Cannot reassign boards to the removed member" });
+        }
+
+        await removeTeamMember(
+          team,
+          memberId,
+          options.policy,
+          options.reassignTo
+        );
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Remove team member error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/teams/:teamId/leave",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const { boards, reassignTo } = req.body ?? {};
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({
+          id: teamId,
+          members: userId,
+          deletedAt: null,
+        });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (team.ownerId === userId) {
+          return res
+            .status(400)
+            .json({ error: "Transfer ownership before leaving the team" });
+        }
+
+        const options = parseBoardPolicy(team, boards, reassignTo);
+        if ("error" in options) {
+          return res.status(400).json({ error: options.error });
+        }
+        if (options.reassignTo === userId) {
+          return res
+            .status(400)
+            .json({ error: "Cannot reassign boards to yourself" });
+        }
+
+        await removeTeamMember(team, userId, options.policy, options.reassignTo);
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Leave team error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/teams/:teamId/transfer",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const { newOwnerId } = req.body;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (team.ownerId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner can transfer ownership" });
+        }
+
+        if (!newOwnerId || !team.members.includes(newOwnerId)) {
+          return res
+            .status(400)
+            .json({ error: "New owner must be a team member" });
+        }
+
+        if (newOwnerId === userId) {
+          return res.status(400).json({ error: "You already own this team" });
+        }
+
+        // The previous owner stays on as an admin
+        await teamsCol.updateOne(
+          { id: teamId },
+          {
+            $set: {
+              ownerId: newOwnerId,
+              [`roles.${newOwnerId}`]: "owner",
+              [`roles.${userId}`]: "admin",
+            },
+          }
+        );
+
+        const updatedTeam = await teamsCol.findOne({
+          id: teamId,
+          deletedAt: null,
+        });
+        res.json(updatedTeam);
+      } catch (error) {
+        console.error("Transfer team ownership error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/teams/:teamId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (team.ownerId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Only team owner can delete the team" });
+        }
+
+        // Moves to the trash; boards and tasks stay untouched underneath it
+        await teamsCol.updateOne(
+          { id: teamId },
+          { $set: { deletedAt: Date.now(), deletedBy: userId } }
+        );
+        await recordActivity({
+          action: "team.deleted",
+          actorId: userId,
+          teamId,
+          before: { name: team.name },
+        });
+
+        const teamBoards = await boardsCol
+          .find({ teamId, deletedAt: null }, { projection: { id: 1 } })
+          .toArray();
+        teamBoards.forEach((board) =>
+          broadcastToBoard(board.id, {
+            type: "board_deleted",
+            boardId: board.id,
+          })
+        );
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete team error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Invitation Routes =================
+  function sanitizeInvitation(invitation: Invitation) {
+    const { _id, ...rest } = invitation;
+    return rest;
+  }
+
+  function signInviteToken(invitation: Invitation) {
+    const payload: InviteTokenPayload = {
+      purpose: "invite",
+      invitationId: invitation.id,
+      email: invitation.email,
+    };
+    return jwt.sign(payload, JWT_SECRET, {
+      expiresIn: Math.max(
+        1,
+        Math.floor((invitation.expiresAt - Date.now()) / 1000)
+      ),
+    });
+  }
+
+  // Invitations are expired lazily whenever a query is about to look at them
+  async function expireInvitations(filter: Partial<Invitation>) {
+    await invitationsCol.updateMany(
+      { ...filter, status: "pending", expiresAt: { $lte: Date.now() } },
+      { $set: { status: "expired" } }
+    );
+  }
+
+  async function respondToInvitation(
+    invitation: Invitation,
+    user: User,
+    accept: boolean
+  ): Promise<{ status: number; error: string } | null> {
+    if (invitation.email !== user.email) {
+      return { status: 403, error: "Invitation belongs to another user" };
+    }
+    if (!tokenAllowsTeam(invitation.teamId)) {
+      return { status: 403, error: "Token does not grant access to this team" };
+    }
+
+    if (invitation.status === "pending" && invitation.expiresAt <= Date.now()) {
+      await expireInvitations({ id: invitation.id });
+      return { status: 410, error: "Invitation expired" };
+    }
+
+    if (invitation.status !== "pending") {
+      return { status: 400, error: `Invitation already ${invitation.status}` };
+    }
+
+    if (accept) {
+      const team = await teamsCol.findOne({
+        id: invitation.teamId,
+        deletedAt: null,
+      });
+      if (!team) {
+        return { status: 404, error: "Team not found" };
+      }
+
+      if (!team.members.includes(user.id)) {
+        await teamsCol.updateOne(
+          { id: team.id },
+          {
+            $addToSet: { members: user.id },
+            $set: { [`roles.${user.id}`]: invitation.role },
+          }
+        );
+      }
+    }
+
+    await invitationsCol.updateOne(
+      { id: invitation.id, status: "pending" },
+      {
+        $set: {
+          status: accept ? "accepted" : "declined",
+          inviteeId: user.id,
+          respondedAt: Date.now(),
+        },
+      }
+    );
+    return null;
+  }
+
+  app.get(
+    "/invitations",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const user = await usersCol.findOne({ id: req.user!.userId });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        await expireInvitations({ email: user.email });
+        const invitations = (
+          await invitationsCol
+            .find({ email: user.email, status: "pending" })
+            .sort({ createdAt: -1 })
+            .toArray()
+        ).filter((i) => tokenAllowsTeam(i.teamId));
+
+        // Include team names so the invitee knows what they are joining
+        const teamIds = invitations.map((i) => i.teamId);
+        const teams = await teamsCol
+          .find({ id: { $in: teamIds } }, { projection: { id: 1, name: 1 } })
+          .toArray();
+        const teamNames = new Map(teams.map((t) => [t.id, t.name]));
+
+        res.json(
+          invitations.map((i) => ({
+            ...sanitizeInvitation(i),
+            teamName: teamNames.get(i.teamId) ?? null,
+          }))
+        );
+      } catch (error) {
+        console.error("Get invitations error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/invitations/accept",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { token } = req.body;
+        if (!token) {
+          return res.status(400).json({ error: "Invitation token required" });
+        }
+
+        let payload: InviteTokenPayload;
+        try {
+          payload = jwt.verify(token, JWT_SECRET) as InviteTokenPayload;
+        } catch {
+          return res.status(400).json({ error: "Invalid invitation token" });
+        }
+
+        const [user, invitation] = await Promise.all([
+          usersCol.findOne({ id: req.user!.userId }),
+          invitationsCol.findOne({ id: payload.invitationId }),
+        ]);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (
+          payload.purpose !== "invite" ||
+          !invitation ||
+          invitation.email !== payload.email
+        ) {
+          return res.status(404).json({ error: "Invitation not found" });
+        }
+
+        const failure = await respondToInvitation(invitation, user, true);
+        if (failure) {
+          return res.status(failure.status).json({ error: failure.error });
+        }
+
+        res.json({ success: true, teamId: invitation.teamId });
+      } catch (error) {
+        console.error("Accept invitation error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/invitations/:invitationId/:action",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { invitationId, action } = req.params;
+        if (action !== "accept" && action !== "decline") {
+          return res.status(404).json({ error: "Route not found" });
+        }
+
+        const [user, invitation] = await Promise.all([
+          usersCol.findOne({ id: req.user!.userId }),
+          invitationsCol.findOne({ id: invitationId }),
+        ]);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (!invitation) {
+          return res.status(404).json({ error: "Invitation not found" });
+        }
+
+        const failure = await respondToInvitation(
+          invitation,
+          user,
+          action === "accept"
+        );
+        if (failure) {
+          return res.status(failure.status).json({ error: failure.error });
+        }
+
+        res.json({ success: true, teamId: invitation.teamId });
+      } catch (error) {
+        console.error("Respond to invitation error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Board Routes =================
+  // Permanently delete boards along with everything that hangs off them
+  async function purgeBoards(boardIds: string[]) {
+    if (boardIds.length === 0) return;
+    await boardsCol.deleteMany({ id: { $in: boardIds } });
+    await tasksCol.deleteMany({ boardId: { $in: boardIds } });
+    await labelsCol.deleteMany({ boardId: { $in: boardIds } });
+    await commentsCol.deleteMany({ boardId: { $in: boardIds } });
+    await boardEventsCol.deleteMany({ boardId: { $in: boardIds } });
+    await purgeWebhooks({ boardId: { $in: boardIds } });
+  }
+
+  app.post(
+    "/boards",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { name, teamId, isPersonal, columns } = req.body;
+        const userId = req.user!.userId;
+
+        if (!name) {
+          return res.status(400).json({ error: "Board name required" });
+        }
+
+        if (
+          columns !== undefined &&
+          (!Array.isArray(columns) ||
+            columns.length === 0 ||
+            !columns.every((c) => typeof c === "string" && c.trim()))
+        ) {
+          return res
+            .status(400)
+            .json({ error: "columns must be a non-empty array of names" });
+        }
+
+        // If team board, verify user can contribute to the team
+        const teamError = await checkBoardTeam(teamId, userId);
+        if (teamError) return res.status(403).json({ error: teamError });
+
+        const board: Board = {
+          id: uuidv4(),
+          name,
+          teamId: teamId || null,
+          ownerId: userId,
+          isPersonal: Boolean(isPersonal),
+          columns: columns
+            ? columns.map((columnName: string) => ({
+                id: uuidv4(),
+                name: columnName.trim(),
+                wipLimit: null,
+                archived: false,
+              }))
+            : DEFAULT_COLUMNS.map((c) => ({ ...c })),
+          createdAt: Date.now(),
+          version: 1,
+        };
+
+        await boardsCol.insertOne(board);
+        res.set("ETag", versionTag(board.version)).json(board);
+      } catch (error) {
+        console.error("Create board error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Personal boards plus every board of every team the user belongs to
+  async function accessibleBoardsFilter(
+    userId: string
+  ): Promise<Filter<Board>> {
+    // Get user's teams
+    const userTeams = await teamsCol
+      .find({ members: userId, deletedAt: null })
+      .toArray();
+    const teamIds = userTeams.map((t) => t.id);
+
+    const filter: Filter<Board> = {
+      $or: [
+        { ownerId: userId, isPersonal: true }, // Personal boards
+        { teamId: { $in: teamIds } }, // Team boards where user is member
+      ],
+      deletedAt: null,
+    };
+
+    // Narrow further to what a limited personal access token covers
+    const limits = tokenLimits.getStore();
+    if (hasTokenLimits(limits)) {
+      filter.$and = [
+        {
+          $or: [
+            { id: { $in: limits.boardIds } },
+            { teamId: { $in: limits.teamIds } },
+          ],
+        },
+      ];
+    }
+    return filter;
+  }
+
+  app.get("/boards", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      // Get personal boards and team boards
+      const boards = await boardsCol
+        .find(await accessibleBoardsFilter(userId))
+        .toArray();
+
+      res.json(boards.map(withColumns));
+    } catch (error) {
+      console.error("Get boards error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get(
+    "/boards/:boardId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) {
+          return res.status(404).json({ error: "Board not found" });
+        }
+
+        // Verify access
+        const access = await authorizeBoard(board, userId, "viewer");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        res.set("ETag", versionTag(board.version)).json(withColumns(board));
+      } catch (error) {
+        console.error("Get board error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/boards/:boardId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const { name } = req.body;
+        const userId = req.user!.userId;
+
+        if (!name) {
+          return res.status(400).json({ error: "Board name required" });
+        }
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) {
+          return res.status(404).json({ error: "Board not found" });
+        }
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const expected = parseIfMatch(req.get("If-Match"));
+        if (expected === null) {
+          return res.status(400).json({ error: "Invalid If-Match header" });
+        }
+
+        // With If-Match the write only lands on the version the client saw
+        const { matchedCount } = await boardsCol.updateOne(
+          expected === undefined
+            ? { id: boardId, deletedAt: null }
+            : { id: boardId, deletedAt: null, version: expected },
+          { $set: { name }, $inc: { version: 1 } }
+        );
+        if (matchedCount === 0) {
+          const current = await boardsCol.findOne({
+            id: boardId,
+            deletedAt: null,
+          });
+          if (!current) {
+            return res.status(404).json({ error: "Board not found" });
+          }
+          return res
+            .status(409)
+            .set("ETag", versionTag(current.version))
+            .json({
+              error: "Board was changed by someone else",
+              board: withColumns(current),
+            });
+        }
+
+        if (name !== board.name) {
+          await recordActivity({
+            action: "board.renamed",
+            actorId: userId,
+            teamId: board.teamId,
+            boardId,
+            before: { name: board.name },
+            after: { name },
+          });
+        }
+
+        const updatedBoard = await boardsCol.findOne({
+          id: boardId,
+          deletedAt: null,
+        });
+        if (!updatedBoard) {
+          return res.status(404).json({ error: "Board not found" });
+        }
+        res
+          .set("ETag", versionTag(updatedBoard.version))
+          .json(withColumns(updatedBoard));
+      } catch (error) {
+        console.error("Update board error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/boards/:boardId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) {
+          return res.status(404).json({ error: "Board not found" });
+        }
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        // Move the board to the trash; its tasks keep their columns and
+        // order so a restore brings everything back as it was
+        await boardsCol.updateOne(
+          { id: boardId },
+          { $set: { deletedAt: Date.now(), deletedBy: userId } }
+        );
+        broadcastToBoard(boardId, { type: "board_deleted", boardId });
+        await recordActivity({
+          action: "board.deleted",
+          actorId: userId,
+          teamId: board.teamId,
+          boardId,
+          before: { name: board.name },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete board error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Column Routes =================
+  // Checks that `count` more tasks can land in a column. Tasks already in the
+  // column that are merely being reordered should be passed as `movingTaskIds`
+  // so they aren't counted twice.
+  async function checkColumnTarget(
+    board: Board,
+    columnId: unknown,
+    count = 1,
+    movingTaskIds: string[] = []
+  ): Promise<string | null> {
+    const column = getBoardColumns(board).find((c) => c.id === columnId);
+    if (!column) {
+      return `Unknown column: ${columnId}`;
+    }
+    if (column.archived) {
+      return `Column "${column.name}" is archived`;
+    }
+    if (column.wipLimit !== null) {
+      const existing = await tasksCol.countDocuments({
+        boardId: board.id,
+        column: column.id,
+        id: { $nin: movingTaskIds },
+        archivedAt: null,
+        deletedAt: null,
+      });
+      if (existing + count > column.wipLimit) {
+        return `Column "${column.name}" is at its WIP limit of ${column.wipLimit}`;
+      }
+    }
+    return null;
+  }
+
+  // Writes the whole column list, but only over the board version it was
+  // read at, so concurrent column edits can't overwrite each other. Returns
+  // null when the board changed in between.
+  async function saveColumns(
+    board: Board,
+    columns: BoardColumn[]
+  ): Promise<Board | null> {
+    const saved = await boardsCol.findOneAndUpdate(
+      { id: board.id, deletedAt: null, version: board.version },
+      { $set: { columns }, $inc: { version: 1 } },
+      { returnDocument: "after" }
+    );
+    if (!saved) return null;
+
+    const updatedBoard = withColumns(saved);
+    broadcastToBoard(board.id, {
+      type: "board_updated",
+      board: updatedBoard,
+      boardId: board.id,
+    });
+    return updatedBoard;
+  }
+
+  async function respondColumnConflict(res: Response, boardId: string) {
+    const current = await boardsCol.findOne({ id: boardId, deletedAt: null });
+    if (!current) return res.status(404).json({ error: "Board not found" });
+    return res
+      .status(409)
+      .set("ETag", versionTag(current.version))
+      .json({
+        error: "Board was changed by someone else",
+        board: withColumns(current),
+      });
+  }
+
+  app.post(
+    "/boards/:boardId/columns",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const { name, wipLimit = null } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        if (typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Column name required" });
+        }
+
+        const limit = parseWipLimit(wipLimit);
+        if (limit === undefined) {
+          return res
+            .status(400)
+            .json({ error: "wipLimit must be a positive integer or null" });
+        }
+
+        const column: BoardColumn = {
+          id: uuidv4(),
+          name: name.trim(),
+          wipLimit: limit,
+          archived: false,
+        };
+
+        const updatedBoard = await saveColumns(board, [
+          ...getBoardColumns(board),
+          column,
+        ]);
+        if (!updatedBoard) return respondColumnConflict(res, boardId);
+        res.json(updatedBoard);
+      } catch (error) {
+        console.error("Create column error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Reorders columns; the body must list every column id exactly once
+  app.put(
+    "/boards/:boardId/columns",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const { columnIds } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const columns = getBoardColumns(board);
+        if (
+          !Array.isArray(columnIds) ||
+          columnIds.length !== columns.length ||
+          new Set(columnIds).size !== columns.length ||
+          !columns.every((c) => columnIds.includes(c.id))
+        ) {
+          return res
+            .status(400)
+            .json({ error: "columnIds must list every column exactly once" });
+        }
+
+        const byId = new Map(columns.map((c) => [c.id, c]));
+        const updatedBoard = await saveColumns(
+          board,
+          columnIds.map((id: string) => byId.get(id)!)
+        );
+        if (!updatedBoard) return respondColumnConflict(res, boardId);
+        res.json(updatedBoard);
+      } catch (error) {
+        console.error("Reorder columns error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/boards/:boardId/columns/:columnId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId, columnId } = req.params;
+        const { name, wipLimit, archived } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const columns = getBoardColumns(board);
+        const column = columns.find((c) => c.id === columnId);
+        if (!column) {
+          return res.status(404).json({ error: "Column not found" });
+        }
+
+        if (name !== undefined) {
+          if (typeof name !== "string" || !name.trim()) {
+            return res.status(400).json({ error: "Column name required" });
+          }
+          column.name = name.trim();
+        }
+        if (wipLimit !== undefined) {
+          const limit = parseWipLimit(wipLimit);
+          if (limit === undefined) {
+            return res
+              .status(400)
+              .json({ error: "wipLimit must be a positive integer or null" });
+          }
+          column.wipLimit = limit;
+        }
+        if (archived !== undefined) {
+          if (typeof archived !== "boolean") {
+            return res
+              .status(400)
+              .json({ error: "archived must be a boolean" });
+          }
+          if (archived && columns.every((c) => c === column || c.archived)) {
+            return res
+              .status(400)
+              .json({ error: "A board needs at least one active column" });
+          }
+          column.archived = archived;
+        }
+
+        const updatedBoard = await saveColumns(board, columns);
+        if (!updatedBoard) return respondColumnConflict(res, boardId);
+        res.json(updatedBoard);
+      } catch (error) {
+        console.error("Update column error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Deleting a column moves its tasks to the end of the `moveTo` column
+  app.delete(
+    "/boards/:boardId/columns/:columnId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId, columnId } = req.params;
+        const moveTo = req.query.moveTo;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const columns = getBoardColumns(board);
+        if (!columns.some((c) => c.id === columnId)) {
+          return res.status(404).json({ error: "Column not found" });
+        }
+
+        const remaining = columns.filter((c) => c.id !== columnId);
+        if (!remaining.some((c) => !c.archived)) {
+          return res
+            .status(400)
+            .json({ error: "A board needs at least one active column" });
+        }
+
+        const tasks = await tasksCol
+          .find({ boardId, column: columnId, deletedAt: null })
+          .sort({ rank: 1 })
+          .toArray();
+
+        if (tasks.length > 0) {
+          if (!moveTo || moveTo === columnId) {
+            return res.status(400).json({
+              error: "moveTo is required when the column still has tasks",
+            });
+          }
+
+          const targetError = await checkColumnTarget(
+            board,
+            moveTo,
+            tasks.filter((t) => !t.archivedAt).length
+          );
+          if (targetError) {
+            return res.status(400).json({ error: targetError });
+          }
+        }
+
+        // Drop the column first: if another edit got there before us, no
+        // task has been moved yet
+        const updatedBoard = await saveColumns(board, remaining);
+        if (!updatedBoard) return respondColumnConflict(res, boardId);
+
+        const moved: Task[] = [];
+        if (tasks.length > 0) {
+          const movedAt = Date.now();
+          for (const task of tasks) {
+            const placement = await rankForSlot(
+              boardId,
+              moveTo as string,
+              null
+            );
+            if ("error" in placement) throw new Error(placement.error);
+            const fields = {
+              column: moveTo as string,
+              rank: placement.rank,
+              version: task.version + 1,
+            };
+            await tasksCol.updateOne(
+              { id: task.id },
+              { $set: { ...fields, movedAt } }
+            );
+            moved.push({ ...task, ...fields });
+          }
+          await recordTaskMoves(userId, board, tasks, moved);
+          moved.forEach(rebalanceIfLong);
+        }
+
+        if (moved.length > 0) {
+          broadcastToBoard(boardId, {
+            type: "tasks_reorder",
+            tasks: moved,
+            boardId,
+          });
+        }
+        res.json(updatedBoard);
+      } catch (error) {
+        console.error("Delete column error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Label Routes =================
+  app.get(
+    "/boards/:boardId/labels",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "viewer");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const labels = await labelsCol
+          .find({ boardId })
+          .sort({ name: 1 })
+          .toArray();
+        res.json(labels);
+      } catch (error) {
+        console.error("Get labels error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/boards/:boardId/labels",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const { name, color = DEFAULT_LABEL_COLOR } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        if (typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "Label name required" });
+        }
+        if (!LABEL_COLOR_PATTERN.test(color)) {
+          return res
+            .status(400)
+            .json({ error: "Label color must be a hex color like #ff0000" });
+        }
+
+        const label: Label = {
+          id: uuidv4(),
+          boardId,
+          name: name.trim(),
+          color,
+          createdAt: Date.now(),
+        };
+
+        try {
+          await labelsCol.insertOne(label);
+        } catch (error: any) {
+          if (error?.code === 11000) {
+            return res.status(400).json({ error: "Label already exists" });
+          }
+          throw error;
+        }
+
+        broadcastToBoard(boardId, { type: "label_created", label, boardId });
+        res.json(label);
+      } catch (error) {
+        console.error("Create label error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/boards/:boardId/labels/:labelId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId, labelId } = req.params;
+        const { name, color } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const updateData: Partial<Label> = {};
+        if (name !== undefined) {
+          if (typeof name !== "string" || !name.trim()) {
+            return res.status(400).json({ error: "Label name required" });
+          }
+          updateData.name = name.trim();
+        }
+        if (color !== undefined) {
+          if (!LABEL_COLOR_PATTERN.test(color)) {
+            return res
+              .status(400)
+              .json({ error: "Label color must be a hex color like #ff0000" });
+          }
+          updateData.color = color;
+        }
+
+        let label: Label | null;
+        try {
+          label = await labelsCol.findOneAndUpdate(
+            { id: labelId, boardId },
+            { $set: updateData },
+            { returnDocument: "after" }
+          );
+        } catch (error: any) {
+          if (error?.code === 11000) {
+            return res.status(400).json({ error: "Label already exists" });
+          }
+          throw error;
+        }
+        if (!label) {
+          return res.status(404).json({ error: "Label not found" });
+        }
+
+        broadcastToBoard(boardId, { type: "label_updated", label, boardId });
+        res.json(label);
+      } catch (error) {
+        console.error("Update label error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/boards/:boardId/labels/:labelId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId, labelId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const result = await labelsCol.deleteOne({ id: labelId, boardId });
+        if (result.deletedCount === 0) {
+          return res.status(404).json({ error: "Label not found" });
+        }
+
+        // Clients drop the label from their cards on label_deleted
+        await tasksCol.updateMany(
+          { boardId, labelIds: labelId },
+          { $pull: { labelIds: labelId }, $inc: { version: 1 } }
+        );
+
+        broadcastToBoard(boardId, {
+          type: "label_deleted",
+          id: labelId,
+          boardId,
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete label error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Task Ordering =================
+  // Tasks stored before ranks existed carry an integer `order`; give each
+  // such column evenly spaced keys that keep the old order.
+  async function migrateTaskRanks() {
+    const legacyCol = db.collection<Task & { order?: number }>("tasks");
+    const columns = await legacyCol
+      .aggregate<{ _id: { boardId: string; column: string } }>([
+        { $match: { rank: { $exists: false } } },
+        { $group: { _id: { boardId: "$boardId", column: "$column" } } },
+      ])
+      .toArray();
+
+    for (const { _id } of columns) {
+      const tasks = await legacyCol
+        .find({ boardId: _id.boardId, column: _id.column })
+        .sort({ rank: 1, order: 1, createdAt: 1 })
+        .toArray();
+      const ranks = evenRanks(tasks.length);
+      await legacyCol.bulkWrite(
+        tasks.map((t, i) => ({
+          updateOne: {
+            filter: { id: t.id },
+            update: { $set: { rank: ranks[i] }, $unset: { order: "" } },
+          },
+        }))
+      );
+    }
+    if (columns.length > 0) {
+      console.log(`Assigned task ranks in ${columns.length} legacy columns`);
+    }
+  }
+
+  // Picks a key for `taskId` in `column` next to the given neighbours. With
+  // only one neighbour the task goes right beside it; with neither it goes
+  // to the end of the column. Pass a null `taskId` for a task being created.
+  async function rankForSlot(
+    boardId: string,
+    column: string,
+    taskId: string | null,
+    prevTaskId?: unknown,
+    nextTaskId?: unknown
+  ): Promise<{ rank: string } | { error: string }> {
+    const live: Filter<Task> = {
+      boardId,
+      column,
+      archivedAt: null,
+      deletedAt: null,
+    };
+    if (taskId) live.id = { $ne: taskId };
+
+    const neighbour = async (id: unknown) =>
+      typeof id === "string" && id !== taskId
+        ? tasksCol.findOne({ ...live, id })
+        : null;
+
+    let before: string | null = null;
+    let after: string | null = null;
+    if (prevTaskId != null) {
+      const prev = await neighbour(prevTaskId);
+      if (!prev) return { error: "prevTaskId is not in the target column" };
+      before = prev.rank;
+    }
+    if (nextTaskId != null) {
+      const next = await neighbour(nextTaskId);
+      if (!next) return { error: "nextTaskId is not in the target column" };
+      after = next.rank;
+    }
+
+    if (before !== null && after !== null) {
+      if (before >= after) {
+        return { error: "prevTaskId must come before nextTaskId" };
+      }
+    } else if (before !== null) {
+      const [next] = await tasksCol
+        .find({ ...live, rank: { $gt: before } })
+        .sort({ rank: 1 })
+        .limit(1)
+        .toArray();
+      after = next?.rank ?? null;
+    } else {
+      const [prev] = await tasksCol
+        .find(after !== null ? { ...live, rank: { $lt: after } } : live)
+        .sort({ rank: -1 })
+        .limit(1)
+        .toArray();
+      before = prev?.rank ?? null;
+    }
+
+    return { rank: jitteredRank(before, after) };
+  }
+
+  // Rewrites a column's ranks as evenly spaced keys in the given order. A
+  // task whose column or rank no longer matches what was read is left alone.
+  async function writeEvenRanks(tasks: Task[], session?: ClientSession) {
+    if (tasks.length === 0) return;
+    const ranks = evenRanks(tasks.length);
+    await tasksCol.bulkWrite(
+      tasks.map((t, i) => ({
+        updateOne: {
+          filter: { id: t.id, column: t.column, rank: t.rank },
+          update: { $set: { rank: ranks[i] } },
+        },
+      })),
+      { session }
+    );
+  }
+
+  const pendingRebalances = new Set<string>();
+
+  // Repeated inserts into the same gap make keys grow; once one gets long
+  // the whole column is respaced in the background. Requests for a column
+  // that is already queued are dropped.
+  function scheduleRebalance(boardId: string, column: string) {
+    const key = `${boardId}:${column}`;
+    if (pendingRebalances.has(key)) return;
+    pendingRebalances.add(key);
+
+    setImmediate(async () => {
+      try {
+        const tasks = await tasksCol
+          .find({ boardId, column })
+          .sort({ rank: 1, id: 1 })
+          .toArray();
+        await writeEvenRanks(tasks);
+        // Tasks moved in the meantime kept their keys, so send what the
+        // column holds now
+        const live = await tasksCol
+          .find(
+            { boardId, column, archivedAt: null, deletedAt: null },
+            { projection: { id: 1, rank: 1 } }
+          )
+          .sort({ rank: 1, id: 1 })
+          .toArray();
+        broadcastToBoard(boardId, {
+          type: "column_rebalanced",
+          column,
+          tasks: live.map((t) => ({ id: t.id, rank: t.rank })),
+          boardId,
+        });
+      } catch (error) {
+        console.error("Rebalance column error:", error);
+      } finally {
+        pendingRebalances.delete(key);
+      }
+    });
+  }
+
+  // To be called after writing a task's new key
+  function rebalanceIfLong(task: Task) {
+    if (task.rank.length > RANK_REBALANCE_LENGTH) {
+      scheduleRebalance(task.boardId, task.column);
+    }
+  }
+
+  // Moves a single task between two neighbours, possibly into another
+  // column. Only the moved task is written, and only if nobody else changed
+  // it since it was loaded.
+  async function moveTask(
+    userId: string,
+    board: Board,
+    task: Task,
+    slot: { column?: unknown; prevTaskId?: unknown; nextTaskId?: unknown }
+  ): Promise<{ task: Task } | { error: string; stale?: boolean }> {
+    if (task.archivedAt) return { error: "Archived tasks cannot be moved" };
+
+    const column = slot.column ?? task.column;
+    if (column !== task.column) {
+      const columnError = await checkColumnTarget(board, column);
+      if (columnError) return { error: columnError };
+    }
+
+    const placement = await rankForSlot(
+      board.id,
+      column as string,
+      task.id,
+      slot.prevTaskId,
+      slot.nextTaskId
+    );
+    if ("error" in placement) return placement;
+
+    const fields: Partial<Task> = {
+      rank: placement.rank,
+      version: task.version + 1,
+    };
+    if (column !== task.column) {
+      fields.column = column as string;
+      fields.movedAt = Date.now();
+    }
+    const { matchedCount } = await tasksCol.updateOne(
+      { id: task.id, version: task.version },
+      { $set: fields }
+    );
+    if (matchedCount === 0) {
+      return { error: "Task was changed by someone else", stale: true };
+    }
+
+    const moved = { ...task, ...fields };
+    await recordTaskMoves(userId, board, [task], [moved]);
+    broadcastToBoard(board.id, {
+      type: "task_moved",
+      task: moved,
+      boardId: board.id,
+    });
+    rebalanceIfLong(moved);
+    return { task: moved };
+  }
+
+  // Applies a reorder in one transaction where available. Each entry places
+  // a task at index `order` of its column and names the task version the
+  // client saw; if any of those tasks has changed since, nothing is written
+  // and the reorder is reported as stale.
+  function applyReorder(
+    board: Board,
+    updates: ReorderEntry[]
+  ): Promise<{ previous: Task[] } | { error: string; stale?: boolean }> {
+    return runInTransaction(async (session) => {
+      const result = await reorderInSession(board, updates, session);
+      if ("error" in result) await session?.abortTransaction();
+      return result;
+    });
+  }
+
+  async function reorderInSession(
+    board: Board,
+    updates: ReorderEntry[],
+    session?: ClientSession
+  ): Promise<{ previous: Task[] } | { error: string; stale?: boolean }> {
+    const boardId = board.id;
+    const ids = updates.map((t) => t.id);
+    const moving = await tasksCol
+      .find(
+        { boardId, id: { $in: ids }, archivedAt: null, deletedAt: null },
+        { session }
+      )
+      .toArray();
+    const movingById = new Map(moving.map((t) => [t.id, t]));
+
+    const unknown = updates.find((t) => !movingById.has(t.id));
+    if (unknown) return { error: `Unknown task: ${unknown.id}` };
+    if (updates.some((t) => movingById.get(t.id)!.version !== t.version)) {
+      return {
+        error: "Reorder is based on an outdated version of the board",
+        stale: true,
+      };
+    }
+
+    const columnError = await validateReorderColumns(board, updates, session);
+    if (columnError) return { error: columnError };
+
+    const now = Date.now();
+    for (const column of new Set(updates.map((t) => t.column))) {
+      const sequence = await tasksCol
+        .find(
+          {
+            boardId,
+            column,
+            id: { $nin: ids },
+            archivedAt: null,
+            deletedAt: null,
+          },
+          { session }
+        )
+        .sort({ rank: 1, id: 1 })
+        .toArray();
+      const placed = updates
+        .filter((t) => t.column === column)
+        .sort((a, b) => a.order - b.order);
+      for (const t of placed) {
+        const position = Math.min(t.order, sequence.length);
+        sequence.splice(position, 0, movingById.get(t.id)!);
+      }
+
+      await writeEvenRanks(sequence, session);
+      const entered = placed
+        .filter((t) => movingById.get(t.id)!.column !== column)
+        .map((t) => t.id);
+      await tasksCol.updateMany(
+        { id: { $in: placed.map((t) => t.id) } },
+        { $inc: { version: 1 } },
+        { session }
+      );
+      if (entered.length > 0) {
+        await tasksCol.updateMany(
+          { id: { $in: entered } },
+          { $set: { column, movedAt: now } },
+          { session }
+        );
+      }
+    }
+    return { previous: moving };
+  }
+
+  app.post(
+    "/tasks/:taskId/move",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const { column, prevTaskId, nextTaskId } = req.body;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        const result = await moveTask(userId, loaded.board, loaded.task, {
+          column,
+          prevTaskId,
+          nextTaskId,
+        });
+        if ("error" in result) {
+          return res
+            .status(result.stale ? 409 : 400)
+            .json({ error: result.error });
+        }
+        res.json(result.task);
+      } catch (error) {
+        console.error("Move task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Task Routes =================
+  function queryList(value: unknown): string[] {
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value])
+      .flatMap((v) => String(v).split(","))
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+
+  function queryTimestamp(value: unknown): number | null | undefined {
+    if (value === undefined) return undefined;
+    const parsed = /^\d+$/.test(String(value))
+      ? Number(value)
+      : Date.parse(String(value));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  // Translates the task listing/search query string into a Mongo filter.
+  // "me" is accepted as an assignee alias for the caller.
+  function buildTaskFilter(
+    query: Request["query"],
+    userId: string
+  ): { filter: Filter<Task> } | { error: string } {
+    const filter: Filter<Task> = {};
+    const and: Filter<Task>[] = [];
+
+    const columns = queryList(query.column);
+    if (columns.length > 0) filter.column = { $in: columns };
+
+    if (typeof query.q === "string" && query.q.trim()) {
+      const pattern = new RegExp(escapeRegex(query.q.trim()), "i");
+      and.push({ $or: [{ title: pattern }, { description: pattern }] });
+    }
+
+    const created: { $gte?: number; $lt?: number } = {};
+    const due: { $gte?: number; $lt?: number } = {};
+    const ranges: [string, typeof created, "$gte" | "$lt"][] = [
+      ["createdAfter", created, "$gte"],
+      ["createdBefore", created, "$lt"],
+      ["dueAfter", due, "$gte"],
+      ["dueBefore", due, "$lt"],
+    ];
+    for (const [param, range, op] of ranges) {
+      const value = queryTimestamp(query[param]);
+      if (value === null) {
+        return { error: `${param} must be a timestamp or ISO date` };
+      }
+      if (value !== undefined) range[op] = value;
+    }
+    if (Object.keys(created).length > 0) filter.createdAt = created;
+    if (Object.keys(due).length > 0) filter.dueDate = due;
+
+    const assignees = queryList(query.assignee).map((id) =>
+      id === "me" ? userId : id
+    );
+    if (assignees.length > 0) filter.assigneeIds = { $in: assignees };
+
+    const labels = queryList(query.label);
+    if (labels.length > 0) filter.labelIds = { $in: labels };
+
+    const priorities = queryList(query.priority);
+    if (priorities.some((p) => !TASK_PRIORITIES.includes(p as TaskPriority))) {
+      return {
+        error: `priority must be one of ${TASK_PRIORITIES.join(", ")}`,
+      };
+    }
+    if (priorities.length > 0) {
+      filter.priority = { $in: priorities as TaskPriority[] };
+    }
+
+    // Archived tasks only show up when asked for
+    if (query.includeArchived !== "true") filter.archivedAt = null;
+
+    if (and.length > 0) filter.$and = and;
+    return { filter };
+  }
+
+  async function getBoardMemberIds(board: Board): Promise<string[]> {
+    if (board.isPersonal || !board.teamId) return [board.ownerId];
+    const team = await teamsCol.findOne({ id: board.teamId, deletedAt: null });
+    return team ? team.members : [];
+  }
+
+  // Validates the planning fields shared by task create and update. Only
+  // fields present in `input` end up in the result.
+  async function parseTaskMetadata(
+    board: Board,
+    input: TaskInput
+  ): Promise<{ fields: Partial<Task> } | { error: string }> {
+    const fields: Partial<Task> = {};
+    const { assigneeIds, dueDate, priority, labelIds } = input;
+
+    if (assigneeIds !== undefined) {
+      if (
+        !Array.isArray(assigneeIds) ||
+        !assigneeIds.every((id) => typeof id === "string")
+      ) {
+        return { error: "assigneeIds must be an array of user IDs" };
+      }
+      const memberIds = await getBoardMemberIds(board);
+      if (!assigneeIds.every((id: string) => memberIds.includes(id))) {
+        return { error: "Assignees must be members of the board's team" };
+      }
+      fields.assigneeIds = [...new Set<string>(assigneeIds)];
+    }
+
+    if (dueDate !== undefined) {
+      if (dueDate === null) {
+        fields.dueDate = null;
+      } else {
+        const parsed =
+          typeof dueDate === "number" ? dueDate : Date.parse(dueDate);
+        if (!Number.isFinite(parsed)) {
+          return { error: "dueDate must be a timestamp or ISO date" };
+        }
+        fields.dueDate = parsed;
+      }
+    }
+
+    if (priority !== undefined) {
+      if (!TASK_PRIORITIES.includes(priority)) {
+        return {
+          error: `priority must be one of ${TASK_PRIORITIES.join(", ")}`,
+        };
+      }
+      fields.priority = priority;
+    }
+
+    if (labelIds !== undefined) {
+      if (
+        !Array.isArray(labelIds) ||
+        !labelIds.every((id) => typeof id === "string")
+      ) {
+        return { error: "labelIds must be an array of label IDs" };
+      }
+      const uniqueLabelIds = [...new Set<string>(labelIds)];
+      const found = await labelsCol.countDocuments({
+        boardId: board.id,
+        id: { $in: uniqueLabelIds },
+      });
+      if (found !== uniqueLabelIds.length) {
+        return { error: "Unknown label for this board" };
+      }
+      fields.labelIds = uniqueLabelIds;
+    }
+
+    return { fields };
+  }
+
+  app.get(
+    "/boards/:boardId/tasks",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        // Verify user has access to this board
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) {
+          return res.status(404).json({ error: "Board not found" });
+        }
+
+        const access = await authorizeBoard(board, userId, "viewer");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const parsed = buildTaskFilter(req.query, userId);
+        if ("error" in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        const filter: Filter<Task> = {
+          ...parsed.filter,
+          boardId,
+          deletedAt: null,
+        };
+
+        // Without a limit the whole (filtered) board comes back as before
+        if (req.query.limit === undefined && req.query.cursor === undefined) {
+          const tasks = await tasksCol
+            .find(filter)
+            .sort({ column: 1, rank: 1, id: 1 })
+            .toArray();
+          return res.json(tasks);
+        }
+
+        // Paginated: one page per column, each with its own cursor. Fetching
+        // a further page means passing that column's cursor plus `column`.
+        const limit = parseLimit(req.query.limit, 50, 200);
+        const requested = queryList(req.query.column);
+        const after = decodeCursor<{ rank: string; id: string }>(
+          req.query.cursor
+        );
+        if (req.query.cursor !== undefined) {
+          if (!after) {
+            return res.status(400).json({ error: "Invalid cursor" });
+          }
+          if (requested.length !== 1) {
+            return res
+              .status(400)
+              .json({ error: "cursor requires exactly one column" });
+          }
+        }
+
+        const columnIds =
+          requested.length > 0
+            ? requested
+            : getBoardColumns(board).map((c) => c.id);
+
+        const pages: Record<
+          string,
+          { tasks: Task[]; nextCursor: string | null }
+        > = {};
+        for (const columnId of columnIds) {
+          const columnFilter: Filter<Task> = { ...filter, column: columnId };
+          if (after) {
+            columnFilter.$or = [
+              { rank: { $gt: after.rank } },
+              { rank: after.rank, id: { $gt: after.id } },
+            ];
+          }
+
+          const tasks = await tasksCol
+            .find(columnFilter)
+            .sort({ rank: 1, id: 1 })
+            .limit(limit + 1)
+            .toArray();
+          const page = tasks.slice(0, limit);
+          const last = page[page.length - 1];
+          pages[columnId] = {
+            tasks: page,
+            nextCursor:
+              tasks.length > limit && last
+                ? encodeCursor({ rank: last.rank, id: last.id })
+                : null,
+          };
+        }
+
+        res.json({ columns: pages });
+      } catch (error) {
+        console.error("Get tasks error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // The task operations below back both the REST routes and their socket
+  // equivalents; callers have already checked board access.
+  type TaskOutcome =
+    | { task: Task }
+    | { status: number; error: string; current?: Task };
+
+  async function loadBoardForUser(
+    boardId: unknown,
+    userId: string,
+    minRole: TeamRole
+  ): Promise<{ board: Board } | { status: number; error: string }> {
+    const board =
+      typeof boardId === "string"
+        ? await boardsCol.findOne({ id: boardId, deletedAt: null })
+        : null;
+    if (!board) return { status: 404, error: "Board not found" };
+
+    const access = await authorizeBoard(board, userId, minRole);
+    if ("error" in access) return { status: 403, error: access.error };
+
+    return { board };
+  }
+
+  async function createTask(
+    userId: string,
+    board: Board,
+    input: TaskInput
+  ): Promise<TaskOutcome> {
+    const { title, column, description } = input;
+    if (!title || typeof title !== "string") {
+      return { status: 400, error: "title required" };
+    }
+
+    const targetColumn =
+      column ?? getBoardColumns(board).find((c) => !c.archived)?.id;
+    const columnError = await checkColumnTarget(board, targetColumn);
+    if (columnError) return { status: 400, error: columnError };
+
+    const metadata = await parseTaskMetadata(board, input);
+    if ("error" in metadata) return { status: 400, error: metadata.error };
+
+    const placement = await rankForSlot(board.id, targetColumn, null);
+    if ("error" in placement) return { status: 400, error: placement.error };
+
+    const task: Task = {
+      id: uuidv4(),
+      title,
+      description: description || "",
+      column: targetColumn,
+      createdAt: Date.now(),
+      movedAt: Date.now(),
+      rank: placement.rank,
+      version: 1,
+      boardId: board.id,
+      assigneeIds: [],
+      dueDate: null,
+      priority: "none",
+      labelIds: [],
+      ...metadata.fields,
+    };
+
+    await tasksCol.insertOne(task);
+    rebalanceIfLong(task);
+    await recordActivity({
+      action: "task.created",
+      actorId: userId,
+      teamId: board.teamId,
+      boardId: board.id,
+      taskId: task.id,
+      after: taskSnapshot(task),
+    });
+    broadcastToBoard(board.id, {
+      type: "task_created",
+      task,
+      boardId: board.id,
+    });
+    return { task };
+  }
+
+  // `expected` is the version the client based its edit on, if it sent one
+  async function updateTask(
+    userId: string,
+    board: Board,
+    task: Task,
+    input: TaskInput,
+    expected: number | undefined
+  ): Promise<TaskOutcome> {
+    const { title, description, column } = input;
+
+    if (task.archivedAt) {
+      return { status: 400, error: "Archived tasks must be unarchived first" };
+    }
+
+    if (column !== undefined && column !== task.column) {
+      const columnError = await checkColumnTarget(board, column);
+      if (columnError) return { status: 400, error: columnError };
+    }
+
+    const metadata = await parseTaskMetadata(board, input);
+    if ("error" in metadata) return { status: 400, error: metadata.error };
+
+    const updateData: Partial<Task> = { ...metadata.fields };
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (column !== undefined) updateData.column = column;
+    if (column !== undefined && column !== task.column) {
+      // Goes to the end of the new column
+      const placement = await rankForSlot(board.id, column, task.id);
+      if ("error" in placement) return { status: 400, error: placement.error };
+      updateData.rank = placement.rank;
+      updateData.movedAt = Date.now();
+    }
+
+    // With a version the write only lands if nobody got there first
+    const { matchedCount } = await tasksCol.updateOne(
+      expected === undefined
+        ? { id: task.id, archivedAt: null, deletedAt: null }
+        : { id: task.id, archivedAt: null, deletedAt: null, version: expected },
+      { $set: updateData, $inc: { version: 1 } }
+    );
+    if (matchedCount === 0) {
+      const current = await tasksCol.findOne({ id: task.id, deletedAt: null });
+      if (!current) return { status: 404, error: "Task not found" };
+      return {
+        status: 409,
+        error: "Task was changed by someone else",
+        current,
+      };
+    }
+
+    const updatedTask = await tasksCol.findOne({
+      id: task.id,
+      deletedAt: null,
+    });
+    if (!updatedTask) return { status: 404, error: "Task not found" };
+    rebalanceIfLong(updatedTask);
+    const diff = diffFields(task, updatedTask, TASK_AUDIT_FIELDS);
+    if (diff) {
+      await recordActivity({
+        action:
+          updatedTask.column !== task.column ? "task.moved" : "task.updated",
+        actorId: userId,
+        teamId: board.teamId,
+        boardId: task.boardId,
+        taskId: task.id,
+        ...diff,
+      });
+    }
+
+    broadcastToBoard(task.boardId, {
+      type: "task_updated",
+      task: updatedTask,
+      version: updatedTask.version,
+      boardId: task.boardId,
+    });
+    return { task: updatedTask };
+  }
+
+  // Moves the task to the trash
+  async function deleteTask(userId: string, board: Board, task: Task) {
+    await tasksCol.updateOne(
+      { id: task.id },
+      {
+        $set: { deletedAt: Date.now(), deletedBy: userId },
+        $inc: { version: 1 },
+      }
+    );
+    await recordActivity({
+      action: "task.deleted",
+      actorId: userId,
+      teamId: board.teamId,
+      boardId: task.boardId,
+      taskId: task.id,
+      before: taskSnapshot(task),
+    });
+    broadcastToBoard(task.boardId, {
+      type: "task_deleted",
+      id: task.id,
+      boardId: task.boardId,
+    });
+  }
+
+  app.post(
+    "/boards/:boardId/tasks",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        // Verify access
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const input: TaskInput = req.body ?? {};
+        const result = await createTask(userId, board, input);
+        if ("error" in result) {
+          return res.status(result.status).json({ error: result.error });
+        }
+        res.set("ETag", versionTag(result.task.version)).json(result.task);
+      } catch (error) {
+        console.error("Create task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/tasks/:taskId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        const expected = parseIfMatch(req.get("If-Match"));
+        if (expected === null) {
+          return res.status(400).json({ error: "Invalid If-Match header" });
+        }
+
+        const input: TaskInput = req.body ?? {};
+        const result = await updateTask(
+          userId,
+          loaded.board,
+          loaded.task,
+          input,
+          expected
+        );
+        if ("error" in result) {
+          if (result.current) {
+            res.set("ETag", versionTag(result.current.version));
+          }
+          return res
+            .status(result.status)
+            .json({ error: result.error, task: result.current });
+        }
+        res.set("ETag", versionTag(result.task.version)).json(result.task);
+      } catch (error) {
+        console.error("Update task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/tasks/:taskId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        await deleteTask(userId, loaded.board, loaded.task);
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Comment Routes =================
+  // "@handle" matches a board member by full email, the part of the email
+  // before the "@", or their name with spaces removed (case-insensitive).
+  async function resolveMentions(board: Board, body: string) {
+    const handles = [
+      ...body.matchAll(/(?:^|\s)@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g),
+    ].map((m) => m[1].replace(/\.+$/, "").toLowerCase());
+    if (handles.length === 0) return [];
+
+    const members = await usersCol
+      .find(
+        { id: { $in: await getBoardMemberIds(board) } },
+        { projection: { id: 1, email: 1, name: 1 } }
+      )
+      .toArray();
+
+    const mentioned = members.filter((member) => {
+      const email = member.email.toLowerCase();
+      const aliases = [
+        email,
+        email.split("@")[0],
+        member.name.replace(/\s+/g, "").toLowerCase(),
+      ];
+      return handles.some((handle) => aliases.includes(handle));
+    });
+    return mentioned.map((m) => m.id);
+  }
+
+  // Loads a task and its board and checks the caller's role on it
+  async function loadTaskForUser(
+    taskId: unknown,
+    userId: string,
+    minRole: TeamRole
+  ): Promise<{ task: Task; board: Board } | { status: number; error: string }> {
+    const task =
+      typeof taskId === "string"
+        ? await tasksCol.findOne({ id: taskId, deletedAt: null })
+        : null;
+    if (!task) return { status: 404, error: "Task not found" };
+
+    const board = await boardsCol.findOne({
+      id: task.boardId,
+      deletedAt: null,
+    });
+    if (!board) return { status: 404, error: "Board not found" };
+
+    const access = await authorizeBoard(board, userId, minRole);
+    if ("error" in access) return { status: 403, error: access.error };
+
+    return { task, board };
+  }
+
+  app.get(
+    "/tasks/:taskId/comments",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "viewer");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        const comments = await commentsCol
+          .find({ taskId })
+          .sort({ createdAt: 1 })
+          .toArray();
+        res.json(comments);
+      } catch (error) {
+        console.error("Get comments error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/tasks/:taskId/comments",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const { body } = req.body;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        if (typeof body !== "string" || !body.trim()) {
+          return res.status(400).json({ error: "Comment body required" });
+        }
+
+        const comment: Comment = {
+          id: uuidv4(),
+          taskId,
+          boardId: loaded.board.id,
+          authorId: userId,
+          body: body.trim(),
+          mentions: await resolveMentions(loaded.board, body),
+          createdAt: Date.now(),
+          updatedAt: null,
+        };
+
+        await commentsCol.insertOne(comment);
+        broadcastToBoard(comment.boardId, {
+          type: "comment_created",
+          comment,
+          boardId: comment.boardId,
+        });
+        res.json(comment);
+      } catch (error) {
+        console.error("Create comment error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.put(
+    "/comments/:commentId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { commentId } = req.params;
+        const { body } = req.body;
+        const userId = req.user!.userId;
+
+        const comment = await commentsCol.findOne({ id: commentId });
+        if (!comment) {
+          return res.status(404).json({ error: "Comment not found" });
+        }
+
+        if (comment.authorId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Only the author can edit this comment" });
+        }
+
+        const loaded = await loadTaskForUser(comment.taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        if (typeof body !== "string" || !body.trim()) {
+          return res.status(400).json({ error: "Comment body required" });
+        }
+
+        const updatedComment = await commentsCol.findOneAndUpdate(
+          { id: commentId },
+          {
+            $set: {
+              body: body.trim(),
+              mentions: await resolveMentions(loaded.board, body),
+              updatedAt: Date.now(),
+            },
+          },
+          { returnDocument: "after" }
+        );
+
+        broadcastToBoard(comment.boardId, {
+          type: "comment_updated",
+          comment: updatedComment,
+          boardId: comment.boardId,
+        });
+        res.json(updatedComment);
+      } catch (error) {
+        console.error("Update comment error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/comments/:commentId",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { commentId } = req.params;
+        const userId = req.user!.userId;
+
+        const comment = await commentsCol.findOne({ id: commentId });
+        if (!comment) {
+          return res.status(404).json({ error: "Comment not found" });
+        }
+
+        if (comment.authorId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Only the author can delete this comment" });
+        }
+
+        const loaded = await loadTaskForUser(comment.taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        await commentsCol.deleteOne({ id: commentId });
+        broadcastToBoard(comment.boardId, {
+          type: "comment_deleted",
+          id: commentId,
+          taskId: comment.taskId,
+          boardId: comment.boardId,
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Delete comment error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Activity Routes =================
+  async function recordActivity(
+    entry: Pick<Activity, "action" | "actorId"> &
+      Partial<Omit<Activity, "id" | "createdAt">>
+  ) {
+    const activity: Activity = {
+      id: uuidv4(),
+      teamId: null,
+      boardId: null,
+      taskId: null,
+      before: null,
+      after: null,
+      ...entry,
+      createdAt: Date.now(),
+    };
+    await activitiesCol.insertOne(activity);
+
+    // Webhooks go out in the background and never hold up the request
+    queueWebhookDeliveries(activity).catch((error) =>
+      console.error("Queue webhooks error:", error)
+    );
+  }
+
+  // Logs a task.moved entry for each task whose column or rank changed
+  async function recordTaskMoves(
+    actorId: string,
+    board: Board,
+    before: Task[],
+    after: Task[]
+  ) {
+    const afterById = new Map(after.map((t) => [t.id, t]));
+    for (const task of before) {
+      const updated = afterById.get(task.id);
+      if (!updated) continue;
+      const diff = diffFields(task, updated, ["column", "rank"]);
+      if (!diff) continue;
+      await recordActivity({
+        action: "task.moved",
+        actorId,
+        teamId: board.teamId,
+        boardId: board.id,
+        taskId: task.id,
+        ...diff,
+      });
+    }
+  }
+
+  async function sendActivityPage(
+    req: Request,
+    res: Response,
+    filter: Filter<Activity>
+  ) {
+    const after = decodeCursor<{ createdAt: number; id: string }>(
+      req.query.cursor
+    );
+    if (req.query.cursor !== undefined && !after) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+    if (after) {
+      filter.$or = [
+        { createdAt: { $lt: after.createdAt } },
+        { createdAt: after.createdAt, id: { $gt: after.id } },
+      ];
+    }
+
+    const limit = parseLimit(req.query.limit, 50, 200);
+    const entries = await activitiesCol
+      .find(filter)
+      .sort({ createdAt: -1, id: 1 })
+      .limit(limit + 1)
+      .toArray();
+
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
+    res.json({
+      activity: page,
+      nextCursor:
+        entries.length > limit && last
+          ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+          : null,
+    });
+  }
+
+  app.get(
+    "/tasks/:taskId/activity",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "viewer");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        const activity = await activitiesCol
+          .find({ taskId })
+          .sort({ createdAt: -1 })
+          .toArray();
+        res.json(activity);
+      } catch (error) {
+        console.error("Get task activity error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/boards/:boardId/activity",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "viewer");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const filter: Filter<Activity> = { boardId };
+        const actions = queryList(req.query.action);
+        if (actions.length > 0) {
+          filter.action = { $in: actions as ActivityAction[] };
+        }
+        if (typeof req.query.actorId === "string") {
+          filter.actorId = req.query.actorId;
+        }
+
+        await sendActivityPage(req, res, filter);
+      } catch (error) {
+        console.error("Get board activity error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Team-level entries such as invitations, visible to owners and admins
+  app.get(
+    "/teams/:teamId/activity",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { teamId } = req.params;
+        const userId = req.user!.userId;
+
+        const team = await teamsCol.findOne({ id: teamId, deletedAt: null });
+        if (!team) {
+          return res.status(404).json({ error: "Team not found" });
+        }
+
+        if (!hasRole(getTeamRole(team, userId), "admin")) {
+          return res
+            .status(403)
+            .json({
+              error: "Only team owner or admins can view team activity",
+            });
+        }
+
+        await sendActivityPage(req, res, { teamId });
+      } catch (error) {
+        console.error("Get team activity error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Archive Routes =================
+  app.post(
+    "/tasks/:taskId/archive",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+        const { task, board } = loaded;
+
+        if (task.archivedAt) {
+          return res.status(400).json({ error: "Task already archived" });
+        }
+
+        const archivedAt = Date.now();
+        await tasksCol.updateOne(
+          { id: taskId },
+          { $set: { archivedAt, archivedBy: userId }, $inc: { version: 1 } }
+        );
+
+        await recordActivity({
+          action: "task.archived",
+          actorId: userId,
+          teamId: board.teamId,
+          boardId: board.id,
+          taskId,
+        });
+        broadcastToBoard(board.id, {
+          type: "task_archived",
+          id: taskId,
+          boardId: board.id,
+        });
+        res.json({
+          ...task,
+          archivedAt,
+          archivedBy: userId,
+          version: task.version + 1,
+        });
+      } catch (error) {
+        console.error("Archive task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/tasks/:taskId/unarchive",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { taskId } = req.params;
+        const userId = req.user!.userId;
+
+        const loaded = await loadTaskForUser(taskId, userId, "member");
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+        const { task, board } = loaded;
+
+        if (!task.archivedAt) {
+          return res.status(400).json({ error: "Task is not archived" });
+        }
+
+        const placement = await returnPlacement(board, task);
+        if ("error" in placement) {
+          return res.status(400).json({ error: placement.error });
+        }
+
+        await tasksCol.updateOne(
+          { id: taskId },
+          {
+            $set: { ...placement.fields, archivedAt: null, archivedBy: null },
+            $inc: { version: 1 },
+          }
+        );
+        const restoredTask = await tasksCol.findOne({ id: taskId });
+        rebalanceIfLong(restoredTask!);
+
+        await recordActivity({
+          action: "task.unarchived",
+          actorId: userId,
+          teamId: board.teamId,
+          boardId: board.id,
+          taskId,
+        });
+        broadcastToBoard(board.id, {
+          type: "task_unarchived",
+          task: restoredTask,
+          boardId: board.id,
+        });
+        res.json(restoredTask);
+      } catch (error) {
+        console.error("Unarchive task error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Archives every task that has sat in `column` for at least `olderThanDays`
+  app.post(
+    "/boards/:boardId/archive",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const { column, olderThanDays } = req.body;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        if (!getBoardColumns(board).some((c) => c.id === column)) {
+          return res.status(400).json({ error: `Unknown column: ${column}` });
+        }
+
+        if (
+          typeof olderThanDays !== "number" ||
+          !Number.isFinite(olderThanDays) ||
+          olderThanDays < 0
+        ) {
+          return res
+            .status(400)
+            .json({ error: "olderThanDays must be a non-negative number" });
+        }
+
+        // Tasks from before movedAt existed fall back to their creation time
+        const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+        const tasks = await tasksCol
+          .find({
+            boardId,
+            column,
+            archivedAt: null,
+            deletedAt: null,
+            $or: [
+              { movedAt: { $lte: cutoff } },
+              { movedAt: { $exists: false }, createdAt: { $lte: cutoff } },
+            ],
+          })
+          .toArray();
+        const taskIds = tasks.map((t) => t.id);
+
+        if (taskIds.length > 0) {
+          await tasksCol.updateMany(
+            { id: { $in: taskIds } },
+            {
+              $set: { archivedAt: Date.now(), archivedBy: userId },
+              $inc: { version: 1 },
+            }
+          );
+          for (const taskId of taskIds) {
+            await recordActivity({
+              action: "task.archived",
+              actorId: userId,
+              teamId: board.teamId,
+              boardId,
+              taskId,
+            });
+            broadcastToBoard(boardId, {
+              type: "task_archived",
+              id: taskId,
+              boardId,
+            });
+          }
+        }
+
+        res.json({ archived: taskIds.length, taskIds });
+      } catch (error) {
+        console.error("Bulk archive error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/boards/:boardId/archive",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { boardId } = req.params;
+        const userId = req.user!.userId;
+
+        const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+        if (!board) return res.status(404).json({ error: "Board not found" });
+
+        const access = await authorizeBoard(board, userId, "viewer");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
+        }
+
+        const after = decodeCursor<{ archivedAt: number; id: string }>(
+          req.query.cursor
+        );
+        if (req.query.cursor !== undefined && !after) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+
+        const filter: Filter<Task> = {
+          boardId,
+          archivedAt: { $ne: null },
+          deletedAt: null,
+        };
+        if (after) {
+          filter.$or = [
+            { archivedAt: { $lt: after.archivedAt } },
+            { archivedAt: after.archivedAt, id: { $gt: after.id } },
+          ];
+        }
+
+        const limit = parseLimit(req.query.limit, 50, 200);
+        const tasks = await tasksCol
+          .find(filter)
+          .sort({ archivedAt: -1, id: 1 })
+          .limit(limit + 1)
+          .toArray();
+
+        const page = tasks.slice(0, limit);
+        const last = page[page.length - 1];
+        res.json({
+          tasks: page,
+          nextCursor:
+            tasks.length > limit && last
+              ? encodeCursor({ archivedAt: last.archivedAt, id: last.id })
+              : null,
+        });
+      } catch (error) {
+        console.error("Get archived tasks error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // ================= Trash Routes =================
+  const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  function withPurgeAt<T extends { deletedAt?: number | null }>(item: T) {
+    return { ...item, purgeAt: (item.deletedAt ?? 0) + TRASH_RETENTION_MS };
+  }
+
+  // Where a task coming back from the trash or the archive lands: its old
+  // column if that still accepts tasks, otherwise the end of the first
+  // active column.
+  async function returnPlacement(
+    board: Board,
+    task: Task
+  ): Promise<{ fields: Partial<Task> } | { error: string }> {
+    const fields: Partial<Task> = {};
+    const columns = getBoardColumns(board);
+    if (!columns.some((c) => c.id === task.column && !c.archived)) {
+      fields.column = columns.find((c) => !c.archived)!.id;
+      fields.movedAt = Date.now();
+      const placement = await rankForSlot(board.id, fields.column, task.id);
+      if ("error" in placement) return placement;
+      fields.rank = placement.rank;
+    }
+
+    const columnError = await checkColumnTarget(
+      board,
+      fields.column ?? task.column
+    );
+    return columnError ? { error: columnError } : { fields };
+  }
+
+  // Permanently delete tasks and their comments
+  async function purgeTasks(taskIds: string[]) {
+    if (taskIds.length === 0) return;
+    await tasksCol.deleteMany({ id: { $in: taskIds } });
+    await commentsCol.deleteMany({ taskId: { $in: taskIds } });
+  }
+
+  async function purgeExpiredTrash() {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+
+    const teams = await teamsCol
+      .find({ deletedAt: { $lte: cutoff } }, { projection: { id: 1 } })
+      .toArray();
+    for (const team of teams) {
+      await purgeTeam(team.id);
+    }
+
+    const boards = await boardsCol
+      .find({ deletedAt: { $lte: cutoff } }, { projection: { id: 1 } })
+      .toArray();
+    await purgeBoards(boards.map((b) => b.id));
+
+    const tasks = await tasksCol
+      .find({ deletedAt: { $lte: cutoff } }, { projection: { id: 1 } })
+      .toArray();
+    await purgeTasks(tasks.map((t) => t.id));
+
+    if (teams.length + boards.length + tasks.length > 0) {
+      console.log(
+        `Purged ${teams.length} teams, ${boards.length} boards and ${tasks.length} tasks from trash`
+      );
+    }
+  }
+
+  // Without teamId: the caller's trashed teams, personal boards and tasks on
+  // personal boards. With teamId: that team's trashed boards and tasks.
+  app.get("/trash", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const teamId = req.query.teamId;
+
+      let teams: Team[] = [];
+      let boardFilter: Filter<Board>;
+      if (typeof teamId === "string" && teamId) {
+        const team = await teamsCol.findOne({
+          id: teamId,
+          members: userId,
+          deletedAt: null,
+        });
+        if (!team) {
+          return res.status(403).json({ error: "Not a member of this team" });
+        }
+        boardFilter = { teamId };
+      } else {
+        teams = await teamsCol
+          .find({ ownerId: userId, deletedAt: { $ne: null } })
+          .sort({ deletedAt: -1 })
+          .toArray();
+        boardFilter = { ownerId: userId, isPersonal: true };
+      }
+
+      const boards = await boardsCol
+        .find({ ...boardFilter, deletedAt: { $ne: null } })
+        .sort({ deletedAt: -1 })
+        .toArray();
 
-  app.get("/teams", authenticateToken, async (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-      const teams = await teamsCol
+      // Trashed tasks are only listed for boards that are still live; a
+      // trashed board brings its tasks back with it. A limited access token
+      // only sees the trash of what it covers.
+      const liveBoards = await boardsCol
+        .find(
+          { ...boardFilter, deletedAt: null },
+          { projection: { id: 1, teamId: 1 } }
+        )
+        .toArray();
+      const tasks = await tasksCol
         .find({
-          $or: [{ ownerId: userId }, { members: userId }],
+          boardId: {
+            $in: liveBoards.filter((b) => tokenAllowsBoard(b)).map((b) => b.id),
+          },
+          deletedAt: { $ne: null },
         })
+        .sort({ deletedAt: -1 })
         .toArray();
-      res.json(teams);
+
+      res.json({
+        teams: teams.filter((t) => tokenAllowsTeam(t.id)).map(withPurgeAt),
+        boards: boards
+          .filter((b) => tokenAllowsBoard(b))
+          .map((board) => withPurgeAt(withColumns(board))),
+        tasks: tasks.map(withPurgeAt),
+      });
     } catch (error) {
-      console.error("Get teams error:", error);
+      console.error("Get trash error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get(
-    "/teams/:teamId",
+  app.post(
+    "/tasks/:taskId/restore",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { teamId } = req.params;
+        const { taskId } = req.params;
         const userId = req.user!.userId;
 
-        const team = await teamsCol.findOne({
-          id: teamId,
-          $or: [{ ownerId: userId }, { members: userId }],
+        const task = await tasksCol.findOne({
+          id: taskId,
+          deletedAt: { $ne: null },
+        });
+        if (!task) {
+          return res.status(404).json({ error: "Task not found in trash" });
+        }
+
+        const board = await boardsCol.findOne({
+          id: task.boardId,
+          deletedAt: null,
         });
+        if (!board) {
+          return res
+            .status(400)
+            .json({ error: "Restore the board before its tasks" });
+        }
 
-        if (!team) {
-          return res.status(404).json({ error: "Team not found" });
+        const access = await authorizeBoard(board, userId, "member");
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
         }
 
-        res.json(team);
+        const placement = await returnPlacement(board, task);
+        if ("error" in placement) {
+          return res.status(400).json({ error: placement.error });
+        }
+
+        await tasksCol.updateOne(
+          { id: taskId },
+          {
+            $set: { ...placement.fields, deletedAt: null, deletedBy: null },
+            $inc: { version: 1 },
+          }
+        );
+        const restoredTask = await tasksCol.findOne({ id: taskId });
+        rebalanceIfLong(restoredTask!);
+
+        await recordActivity({
+          action: "task.restored",
+          actorId: userId,
+          teamId: board.teamId,
+          boardId: board.id,
+          taskId,
+          after: taskSnapshot(restoredTask!),
+        });
+        broadcastToBoard(board.id, {
+          type: "task_created",
+          task: restoredTask,
+          boardId: board.id,
+        });
+        res.json(restoredTask);
       } catch (error) {
-        console.error("Get team error:", error);
+        console.error("Restore task error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
+  // Sends a restored board and its live tasks to anyone watching it
+  async function broadcastBoardRestored(board: Board) {
+    const tasks = await tasksCol
+      .find({ boardId: board.id, deletedAt: null })
+      .sort({ column: 1, rank: 1, id: 1 })
+      .toArray();
+    broadcastToBoard(board.id, {
+      type: "board_restored",
+      board: withColumns(board),
+      tasks,
+      boardId: board.id,
+    });
+  }
+
   app.post(
-    "/teams/:teamId/invite",
+    "/boards/:boardId/restore",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { teamId } = req.params;
-        const { email } = req.body;
+        const { boardId } = req.params;
         const userId = req.user!.userId;
 
-        const team = await teamsCol.findOne({ id: teamId });
-        if (!team) {
-          return res.status(404).json({ error: "Team not found" });
-        }
-
-        if (team.ownerId !== userId) {
-          return res
-            .status(403)
-            .json({ error: "Only team owner can invite members" });
+        const board = await boardsCol.findOne({
+          id: boardId,
+          deletedAt: { $ne: null },
+        });
+        if (!board) {
+          return res.status(404).json({ error: "Board not found in trash" });
         }
 
-        const userToAdd = await usersCol.findOne({ email });
-        if (!userToAdd) {
-          return res.status(404).json({ error: "User not found" });
+        if (board.teamId) {
+          const team = await teamsCol.findOne({ id: board.teamId });
+          if (team?.deletedAt) {
+            return res
+              .status(400)
+              .json({ error: "Restore the team before its boards" });
+          }
         }
 
-        if (team.members.includes(userToAdd.id)) {
-          return res.status(400).json({ error: "User already in team" });
+        const access = await authorizeBoardAdmin(board, userId);
+        if ("error" in access) {
+          return res.status(403).json({ error: access.error });
         }
 
-        await teamsCol.updateOne(
-          { id: teamId },
-          { $push: { members: userToAdd.id } }
+        await boardsCol.updateOne(
+          { id: boardId },
+          { $set: { deletedAt: null, deletedBy: null } }
         );
+        const restoredBoard = { ...board, deletedAt: null, deletedBy: null };
 
-        res.json({ success: true });
+        await recordActivity({
+          action: "board.restored",
+          actorId: userId,
+          teamId: board.teamId,
+          boardId,
+          after: { name: board.name },
+        });
+        await broadcastBoardRestored(restoredBoard);
+        res.json(withColumns(restoredBoard));
       } catch (error) {
-        console.error("Invite to team error:", error);
+        console.error("Restore board error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  app.delete(
-    "/teams/:teamId",
+  app.post(
+    "/teams/:teamId/restore",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
         const { teamId } = req.params;
         const userId = req.user!.userId;
 
-        const team = await teamsCol.findOne({ id: teamId });
+        const team = await teamsCol.findOne({
+          id: teamId,
+          deletedAt: { $ne: null },
+        });
         if (!team) {
-          return res.status(404).json({ error: "Team not found" });
+          return res.status(404).json({ error: "Team not found in trash" });
         }
 
         if (team.ownerId !== userId) {
           return res
             .status(403)
-            .json({ error: "Only team owner can delete the team" });
+            .json({ error: "Only team owner can restore the team" });
         }
 
-        // Delete team and all its boards and tasks
-        await teamsCol.deleteOne({ id: teamId });
+        await teamsCol.updateOne(
+          { id: teamId },
+          { $set: { deletedAt: null, deletedBy: null } }
+        );
 
-        const teamBoards = await boardsCol.find({ teamId }).toArray();
-        const boardIds = teamBoards.map((board) => board.id);
+        await recordActivity({
+          action: "team.restored",
+          actorId: userId,
+          teamId,
+          after: { name: team.name },
+        });
 
-        await boardsCol.deleteMany({ teamId });
-        await tasksCol.deleteMany({ boardId: { $in: boardIds } });
+        // Boards trashed on their own before the team was stay in the trash
+        const boards = await boardsCol
+          .find({ teamId, deletedAt: null })
+          .toArray();
+        for (const board of boards) {
+          await broadcastBoardRestored(board);
+        }
 
-        res.json({ success: true });
+        res.json({ ...team, deletedAt: null, deletedBy: null });
       } catch (error) {
-        console.error("Delete team error:", error);
+        console.error("Restore team error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  // ================= Board Routes =================
+  // ================= Export / Import Routes =================
+  // Only the checks needed to create a board in `teamId`; personal boards
+  // (no teamId) are allowed unless a limited access token is in use
+  async function checkBoardTeam(
+    teamId: unknown,
+    userId: string
+  ): Promise<string | null> {
+    if (!teamId) {
+      return hasTokenLimits(tokenLimits.getStore())
+        ? "Token does not grant access to personal boards"
+        : null;
+    }
+    const team = await teamsCol.findOne({
+      id: teamId as string,
+      members: userId,
+      deletedAt: null,
+    });
+    if (!team) return "Not a member of this team";
+    if (!tokenAllowsTeam(team.id)) {
+      return "Token does not grant access to this team";
+    }
+    if (!hasRole(getTeamRole(team, userId), "member")) {
+      return "Insufficient permissions";
+    }
+    return null;
+  }
+
+  async function buildBoardExport(board: Board): Promise<BoardExport> {
+    const columns = getBoardColumns(board);
+    const [labels, tasks] = await Promise.all([
+      labelsCol.find({ boardId: board.id }).sort({ name: 1 }).toArray(),
+      tasksCol
+        .find({ boardId: board.id, deletedAt: null })
+        .sort({ column: 1, rank: 1, id: 1 })
+        .toArray(),
+    ]);
+    const assigneeIds = [...new Set(tasks.flatMap((t) => t.assigneeIds ?? []))];
+    const users = await usersCol.find({ id: { $in: assigneeIds } }).toArray();
+    const emails = new Map(users.map((u) => [u.id, u.email]));
+    const labelNames = new Map(labels.map((l) => [l.id, l.name]));
+
+    // Archived tasks keep their rank, so they share the column's sequence
+    const exported: ExportedTask[] = [];
+    for (const column of columns) {
+      tasks
+        .filter((task) => task.column === column.id)
+        .forEach((task, order) =>
+          exported.push({
+            title: task.title,
+            description: task.description ?? "",
+            column: column.id,
+            order,
+            priority: task.priority ?? "none",
+            dueDate: task.dueDate ?? null,
+            labels: (task.labelIds ?? [])
+              .map((id) => labelNames.get(id))
+              .filter((name): name is string => !!name),
+            assignees: (task.assigneeIds ?? [])
+              .map((id) => emails.get(id))
+              .filter((email): email is string => !!email),
+            archived: !!task.archivedAt,
+          })
+        );
+    }
+
+    return {
+      format: "taskboard.board",
+      version: 1,
+      exportedAt: Date.now(),
+      board: { name: board.name, columns },
+      labels: labels.map((l) => ({ name: l.name, color: l.color })),
+      tasks: exported,
+    };
+  }
+
+  app.get(
+    "/boards/:boardId/export",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const format = req.query.format ?? "json";
+        if (format !== "json" && format !== "csv") {
+          return res
+            .status(400)
+            .json({ error: 'format must be "json" or "csv"' });
+        }
+
+        const loaded = await loadBoardForUser(
+          req.params.boardId,
+          req.user!.userId,
+          "viewer"
+        );
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
+        }
+
+        const exported = await buildBoardExport(loaded.board);
+        res.attachment(`board-${loaded.board.id}.${format}`);
+        if (format === "csv") {
+          res.type("text/csv").send(exportToCsv(exported));
+        } else {
+          res.json(exported);
+        }
+      } catch (error) {
+        console.error("Export board error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // Recreates a board from an export (format "json", `data` being the export
+  // object) or from a spreadsheet (format "csv", `data` being the CSV text).
+  // Any invalid row rejects the whole import. With `dryRun` nothing is
+  // created and the response reports what would be imported, including the
+  // CSV headers and how they were mapped to task fields.
   app.post(
-    "/boards",
+    "/boards/import",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { name, teamId, isPersonal } = req.body;
+        const {
+          format = "json",
+          data,
+          name,
+          teamId,
+          mapping,
+          dryRun = false,
+        } = req.body ?? {};
         const userId = req.user!.userId;
 
-        if (!name) {
+        if (format !== "json" && format !== "csv") {
+          return res
+            .status(400)
+            .json({ error: 'format must be "json" or "csv"' });
+        }
+        if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+          return res.status(400).json({ error: "Board name required" });
+        }
+
+        const teamError = await checkBoardTeam(teamId, userId);
+        if (teamError) return res.status(403).json({ error: teamError });
+
+        const parsed =
+          format === "csv"
+            ? parseCsvImport(data, mapping)
+            : parseJsonImport(data);
+        if ("error" in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+
+        const boardName = name?.trim() ?? parsed.name;
+        if (!boardName) {
           return res.status(400).json({ error: "Board name required" });
         }
 
-        // If team board, verify user is in team
-        if (teamId) {
-          const team = await teamsCol.findOne({ id: teamId, members: userId });
-          if (!team) {
-            return res.status(403).json({ error: "Not a member of this team" });
+        // Assignees are matched by email among the new board's members; the
+        // rest are dropped with a warning
+        const memberIds = teamId
+          ? (await teamsCol.findOne({ id: teamId }))?.members ?? []
+          : [userId];
+        const members = await usersCol
+          .find({ id: { $in: memberIds } })
+          .toArray();
+        const memberByEmail = new Map(
+          members.map((m) => [m.email.toLowerCase(), m.id])
+        );
+        const warnings: ImportIssue[] = [];
+        for (const task of parsed.tasks) {
+          for (const email of task.assignees) {
+            if (!memberByEmail.has(email.toLowerCase())) {
+              warnings.push({
+                row: task.row,
+                message: `No board member with email ${email}`,
+              });
+            }
+          }
+        }
+
+        // Labels used by tasks but missing from the file get the default color
+        const labelDefs = [...parsed.labels];
+        for (const labelName of parsed.tasks.flatMap((t) => t.labels)) {
+          if (!labelDefs.some((l) => l.name === labelName)) {
+            labelDefs.push({ name: labelName, color: DEFAULT_LABEL_COLOR });
           }
         }
 
+        if (dryRun) {
+          return res.json({
+            name: boardName,
+            columns: parsed.columns,
+            labels: labelDefs,
+            tasks: parsed.tasks.length,
+            errors: parsed.errors,
+            warnings,
+            headers: parsed.headers,
+            mapping: parsed.mapping,
+          });
+        }
+        if (parsed.errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: "Import has invalid rows", errors: parsed.errors });
+        }
+
+        const now = Date.now();
         const board: Board = {
           id: uuidv4(),
-          name,
+          name: boardName,
           teamId: teamId || null,
           ownerId: userId,
-          isPersonal: Boolean(isPersonal),
-          createdAt: Date.now(),
+          isPersonal: !teamId,
+          columns: parsed.columns,
+          createdAt: now,
+          version: 1,
         };
+        const labels: Label[] = labelDefs.map((l) => ({
+          id: uuidv4(),
+          boardId: board.id,
+          name: l.name,
+          color: l.color,
+          createdAt: now,
+        }));
+        const labelIds = new Map(labels.map((l) => [l.name, l.id]));
+
+        // Explicit orders first, then unordered tasks in file order
+        const tasks: Task[] = [];
+        for (const column of parsed.columns) {
+          const inColumn = parsed.tasks
+            .filter((t) => t.column === column.id)
+            .sort(
+              (a, b) =>
+                (a.order ?? Infinity) - (b.order ?? Infinity) || a.row - b.row
+            );
+          const ranks = evenRanks(inColumn.length);
+          inColumn.forEach((t, i) =>
+            tasks.push({
+              id: uuidv4(),
+              title: t.title,
+              description: t.description,
+              column: column.id,
+              createdAt: now,
+              movedAt: now,
+              rank: ranks[i],
+              version: 1,
+              boardId: board.id,
+              assigneeIds: t.assignees
+                .map((email) => memberByEmail.get(email.toLowerCase()))
+                .filter((id): id is string => !!id),
+              dueDate: t.dueDate,
+              priority: t.priority,
+              labelIds: t.labels.map((labelName) => labelIds.get(labelName)!),
+              archivedAt: t.archived ? now : null,
+              archivedBy: t.archived ? userId : null,
+            })
+          );
+        }
 
-        await boardsCol.insertOne(board);
-        res.json(board);
+        // Without transactions the board goes in last, so a failed import
+        // never shows up as a half-filled board
+        await runInTransaction(async (session) => {
+          if (labels.length > 0) {
+            await labelsCol.insertMany(labels, { session });
+          }
+          if (tasks.length > 0) {
+            await tasksCol.insertMany(tasks, { session });
+          }
+          await boardsCol.insertOne(board, { session });
+        });
+
+        res.set("ETag", versionTag(board.version)).json({
+          board,
+          imported: { labels: labels.length, tasks: tasks.length },
+          warnings,
+        });
       } catch (error) {
-        console.error("Create board error:", error);
+        console.error("Import board error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  app.get("/boards", authenticateToken, async (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
+  // ================= Webhook Routes =================
+  function sanitizeWebhook(webhook: Webhook) {
+    const { _id, secret, ...rest } = webhook;
+    return rest;
+  }
 
-      // Get user's teams
-      const userTeams = await teamsCol.find({ members: userId }).toArray();
-      const teamIds = userTeams.map((t) => t.id);
+  function sanitizeDelivery(delivery: WebhookDelivery) {
+    const { _id, ...rest } = delivery;
+    return rest;
+  }
 
-      // Get personal boards and team boards
-      const boards = await boardsCol
-        .find({
-          $or: [
-            { ownerId: userId, isPersonal: true }, // Personal boards
-            { teamId: { $in: teamIds } }, // Team boards where user is member
-          ],
-        })
-        .toArray();
+  // Validates the writable webhook fields; on create `url` and `events` are
+  // required, on update every field is optional
+  function parseWebhookInput(
+    input: WebhookInput,
+    creating: boolean
+  ): { fields: Partial<Webhook> } | { error: string } {
+    const fields: Partial<Webhook> = {};
+    const { url, events, secret, active } = input;
+
+    if (url !== undefined || creating) {
+      if (typeof url !== "string" || !isValidUrl(url)) {
+        return { error: "url must be an http(s) URL" };
+      }
+      fields.url = url;
+    }
 
-      res.json(boards);
-    } catch (error) {
-      console.error("Get boards error:", error);
-      res.status(500).json({ error: "Internal server error" });
+    if (events !== undefined || creating) {
+      if (
+        !Array.isArray(events) ||
+        events.length === 0 ||
+        !events.every(isWebhookEvent)
+      ) {
+        return {
+          error: `events must list one or more of: ${WEBHOOK_EVENTS.join(
+            ", "
+          )}`,
+        };
+      }
+      fields.events = [...new Set(events as WebhookEvent[])];
     }
-  });
 
-  app.get(
-    "/boards/:boardId",
+    if (secret !== undefined) {
+      if (typeof secret !== "string" || secret.length < 16) {
+        return { error: "secret must be at least 16 characters" };
+      }
+      fields.secret = secret;
+    } else if (creating) {
+      fields.secret = crypto.randomBytes(32).toString("hex");
+    }
+
+    if (active !== undefined) {
+      if (typeof active !== "boolean") {
+        return { error: "active must be a boolean" };
+      }
+      fields.active = active;
+    }
+
+    return { fields };
+  }
+
+  // Board webhooks are managed by board admins, team webhooks by team admins
+  async function authorizeWebhookScope(
+    scope: { boardId: string | null; teamId: string | null },
+    userId: string
+  ): Promise<{ status: number; error: string } | null> {
+    if (scope.boardId) {
+      const board = await boardsCol.findOne({
+        id: scope.boardId,
+        deletedAt: null,
+      });
+      if (!board) return { status: 404, error: "Board not found" };
+      const access = await authorizeBoardAdmin(board, userId);
+      return "error" in access ? { status: 403, error: access.error } : null;
+    }
+
+    const team = await teamsCol.findOne({ id: scope.teamId, deletedAt: null });
+    if (!team) return { status: 404, error: "Team not found" };
+    if (!tokenAllowsTeam(team.id)) {
+      return { status: 403, error: "Token does not grant access to this team" };
+    }
+    if (!hasRole(getTeamRole(team, userId), "admin")) {
+      return {
+        status: 403,
+        error: "Only team owner or admins can manage team webhooks",
+      };
+    }
+    return null;
+  }
+
+  async function loadWebhookForUser(
+    webhookId: string,
+    userId: string
+  ): Promise<{ webhook: Webhook } | { status: number; error: string }> {
+    const webhook = await webhooksCol.findOne({ id: webhookId });
+    if (!webhook) return { status: 404, error: "Webhook not found" };
+
+    const denied = await authorizeWebhookScope(webhook, userId);
+    return denied ?? { webhook };
+  }
+
+  async function createWebhook(
+    req: Request,
+    res: Response,
+    scope: { boardId: string | null; teamId: string | null }
+  ) {
+    const userId = req.user!.userId;
+    const denied = await authorizeWebhookScope(scope, userId);
+    if (denied) return res.status(denied.status).json({ error: denied.error });
+
+    const input: WebhookInput = req.body ?? {};
+    const parsed = parseWebhookInput(input, true);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const targetError = await checkWebhookTarget(parsed.fields.url!);
+    if (targetError) return res.status(400).json({ error: targetError });
+
+    const webhook: Webhook = {
+      id: uuidv4(),
+      ...scope,
+      url: parsed.fields.url!,
+      secret: parsed.fields.secret!,
+      events: parsed.fields.events!,
+      active: parsed.fields.active ?? true,
+      createdBy: userId,
+      createdAt: Date.now(),
+    };
+    await webhooksCol.insertOne(webhook);
+
+    // The secret is only ever shown here
+    res.json({ ...sanitizeWebhook(webhook), secret: webhook.secret });
+  }
+
+  async function listWebhooks(
+    req: Request,
+    res: Response,
+    scope: { boardId: string | null; teamId: string | null }
+  ) {
+    const denied = await authorizeWebhookScope(scope, req.user!.userId);
+    if (denied) return res.status(denied.status).json({ error: denied.error });
+
+    const webhooks = await webhooksCol
+      .find(
+        scope.boardId ? { boardId: scope.boardId } : { teamId: scope.teamId }
+      )
+      .sort({ createdAt: 1 })
+      .toArray();
+    res.json(webhooks.map(sanitizeWebhook));
+  }
+
+  // Queues a delivery for every active webhook on the activity's board or
+  // team that selected its action. Runs in the background.
+  async function queueWebhookDeliveries(activity: Activity) {
+    const event = activity.action;
+    if (!isWebhookEvent(event)) return;
+
+    const scopes: Filter<Webhook>[] = [];
+    if (activity.boardId) scopes.push({ boardId: activity.boardId });
+    if (activity.teamId) scopes.push({ teamId: activity.teamId });
+    if (scopes.length === 0) return;
+
+    const webhooks = await webhooksCol
+      .find({ active: true, events: event, $or: scopes })
+      .toArray();
+    const { _id, ...data } = activity;
+    for (const webhook of webhooks) {
+      await queueDelivery(webhook, event, data);
+    }
+  }
+
+  async function queueDelivery(
+    webhook: Webhook,
+    event: string,
+    data: Record<string, unknown>
+  ) {
+    const id = uuidv4();
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: webhook.id,
+      event,
+      payload: { id, event, createdAt: Date.now(), data },
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      responseStatus: null,
+      lastError: null,
+      createdAt: Date.now(),
+      deliveredAt: null,
+    };
+    await webhookDeliveriesCol.insertOne(delivery);
+    attemptDelivery(id).catch((error) =>
+      console.error("Webhook delivery error:", error)
+    );
+    return delivery;
+  }
+
+  // Makes one attempt at a due delivery. Claiming it pushes nextAttemptAt
+  // out first, so another instance's retry sweep won't send it twice.
+  async function attemptDelivery(deliveryId: string) {
+    const now = Date.now();
+    const delivery = await webhookDeliveriesCol.findOneAndUpdate(
+      { id: deliveryId, status: "pending", nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: now + 60 * 1000 } },
+      { returnDocument: "after" }
+    );
+    if (!delivery) return;
+
+    const webhook = await webhooksCol.findOne({ id: delivery.webhookId });
+    if (!webhook || !webhook.active) {
+      await webhookDeliveriesCol.updateOne(
+        { id: deliveryId },
+        {
+          $set: {
+            status: "failed",
+            nextAttemptAt: null,
+            lastError: "Webhook was removed or disabled",
+          },
+        }
+      );
+      return;
+    }
+
+    const result = await postWebhook(
+      webhook.url,
+      webhook.secret,
+      { event: delivery.event, deliveryId },
+      JSON.stringify(delivery.payload)
+    );
+
+    // Retries back off exponentially: base, 2x base, 4x base, ...
+    const attempts = delivery.attempts + 1;
+    const update: Partial<WebhookDelivery> = {
+      attempts,
+      responseStatus: result.responseStatus,
+      lastError: result.error,
+    };
+    if (result.ok) {
+      update.status = "succeeded";
+      update.deliveredAt = Date.now();
+      update.nextAttemptAt = null;
+    } else if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      update.status = "failed";
+      update.nextAttemptAt = null;
+    } else {
+      update.nextAttemptAt =
+        Date.now() + WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+    }
+    await webhookDeliveriesCol.updateOne({ id: deliveryId }, { $set: update });
+  }
+
+  // Due deliveries are grouped by webhook and sent by a few workers, one
+  // webhook each at a time, so a receiver that keeps timing out only holds
+  // up its own deliveries
+  async function retryDueDeliveries() {
+    const due = await webhookDeliveriesCol
+      .find({ status: "pending", nextAttemptAt: { $lte: Date.now() } })
+      .sort({ nextAttemptAt: 1 })
+      .limit(50)
+      .toArray();
+    const byWebhook = new Map<string, string[]>();
+    for (const delivery of due) {
+      const ids = byWebhook.get(delivery.webhookId) ?? [];
+      ids.push(delivery.id);
+      byWebhook.set(delivery.webhookId, ids);
+    }
+
+    const queue = [...byWebhook.values()];
+    const worker = async () => {
+      for (let ids = queue.shift(); ids; ids = queue.shift()) {
+        for (const id of ids) await attemptDelivery(id);
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(WEBHOOK_RETRY_CONCURRENCY, queue.length) },
+        worker
+      )
+    );
+  }
+
+  async function purgeWebhooks(filter: Filter<Webhook>) {
+    const webhooks = await webhooksCol.find(filter).toArray();
+    const ids = webhooks.map((w) => w.id);
+    await webhooksCol.deleteMany({ id: { $in: ids } });
+    await webhookDeliveriesCol.deleteMany({ webhookId: { $in: ids } });
+  }
+
+  app.post(
+    "/boards/:boardId/webhooks",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { boardId } = req.params;
-        const userId = req.user!.userId;
-
-        const board = await boardsCol.findOne({ id: boardId });
-        if (!board) {
-          return res.status(404).json({ error: "Board not found" });
-        }
+        await createWebhook(req, res, {
+          boardId: req.params.boardId,
+          teamId: null,
+        });
+      } catch (error) {
+        console.error("Create board webhook error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
 
-        // Verify access
-        if (board.isPersonal && board.ownerId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
-        }
+  app.get(
+    "/boards/:boardId/webhooks",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        await listWebhooks(req, res, {
+          boardId: req.params.boardId,
+          teamId: null,
+        });
+      } catch (error) {
+        console.error("Get board webhooks error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
 
-        if (!board.isPersonal && board.teamId) {
-          const team = await teamsCol.findOne({
-            id: board.teamId,
-            members: userId,
-          });
-          if (!team) {
-            return res.status(403).json({ error: "Not a member of this team" });
-          }
-        }
+  app.post(
+    "/teams/:teamId/webhooks",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        await createWebhook(req, res, {
+          boardId: null,
+          teamId: req.params.teamId,
+        });
+      } catch (error) {
+        console.error("Create team webhook error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  );
 
-        res.json(board);
+  app.get(
+    "/teams/:teamId/webhooks",
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        await listWebhooks(req, res, {
+          boardId: null,
+          teamId: req.params.teamId,
+        });
       } catch (error) {
-        console.error("Get board error:", error);
+        console.error("Get team webhooks error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
   app.put(
-    "/boards/:boardId",
+    "/webhooks/:webhookId",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { boardId } = req.params;
-        const { name } = req.body;
-        const userId = req.user!.userId;
-
-        if (!name) {
-          return res.status(400).json({ error: "Board name required" });
+        const { webhookId } = req.params;
+        const loaded = await loadWebhookForUser(webhookId, req.user!.userId);
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
         }
 
-        const board = await boardsCol.findOne({ id: boardId });
-        if (!board) {
-          return res.status(404).json({ error: "Board not found" });
+        const input: WebhookInput = req.body ?? {};
+        const parsed = parseWebhookInput(input, false);
+        if ("error" in parsed) {
+          return res.status(400).json({ error: parsed.error });
         }
-
-        if (board.ownerId !== userId) {
-          return res.status(403).json({ error: "Only board owner can edit" });
+        if (parsed.fields.url) {
+          const targetError = await checkWebhookTarget(parsed.fields.url);
+          if (targetError) return res.status(400).json({ error: targetError });
         }
 
-        await boardsCol.updateOne({ id: boardId }, { $set: { name } });
-
-        const updatedBoard = await boardsCol.findOne({ id: boardId });
-        res.json(updatedBoard);
+        await webhooksCol.updateOne({ id: webhookId }, { $set: parsed.fields });
+        res.json(sanitizeWebhook({ ...loaded.webhook, ...parsed.fields }));
       } catch (error) {
-        console.error("Update board error:", error);
+        console.error("Update webhook error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
   app.delete(
-    "/boards/:boardId",
+    "/webhooks/:webhookId",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { boardId } = req.params;
-        const userId = req.user!.userId;
-
-        const board = await boardsCol.findOne({ id: boardId });
-        if (!board) {
-          return res.status(404).json({ error: "Board not found" });
+        const { webhookId } = req.params;
+        const loaded = await loadWebhookForUser(webhookId, req.user!.userId);
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
         }
 
-        if (board.ownerId !== userId) {
-          return res.status(403).json({ error: "Only board owner can delete" });
-        }
-
-        // Delete board and all its tasks
-        await boardsCol.deleteOne({ id: boardId });
-        await tasksCol.deleteMany({ boardId });
-
+        await purgeWebhooks({ id: webhookId });
         res.json({ success: true });
       } catch (error) {
-        console.error("Delete board error:", error);
+        console.error("Delete webhook error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  // ================= Task Routes =================
   app.get(
-    "/boards/:boardId/tasks",
+    "/webhooks/:webhookId/deliveries",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { boardId } = req.params;
-        const userId = req.user!.userId;
-
-        // Verify user has access to this board
-        const board = await boardsCol.findOne({ id: boardId });
-        if (!board) {
-          return res.status(404).json({ error: "Board not found" });
+        const { webhookId } = req.params;
+        const loaded = await loadWebhookForUser(webhookId, req.user!.userId);
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
         }
 
-        if (board.isPersonal && board.ownerId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
+        const after = decodeCursor<{ createdAt: number; id: string }>(
+          req.query.cursor
+        );
+        if (req.query.cursor !== undefined && !after) {
+          return res.status(400).json({ error: "Invalid cursor" });
         }
 
-        if (!board.isPersonal && board.teamId) {
-          const team = await teamsCol.findOne({
-            id: board.teamId!,
-            members: userId,
-          });
-          if (!team) {
-            return res.status(403).json({ error: "Not a member of this team" });
-          }
+        const filter: Filter<WebhookDelivery> = { webhookId };
+        if (after) {
+          filter.$or = [
+            { createdAt: { $lt: after.createdAt } },
+            { createdAt: after.createdAt, id: { $gt: after.id } },
+          ];
         }
 
-        const tasks = await tasksCol
-          .find({ boardId })
-          .sort({ column: 1, order: 1 })
+        const limit = parseLimit(req.query.limit, 50, 200);
+        const deliveries = await webhookDeliveriesCol
+          .find(filter)
+          .sort({ createdAt: -1, id: 1 })
+          .limit(limit + 1)
           .toArray();
-        res.json(tasks);
+
+        const page = deliveries.slice(0, limit);
+        const last = page[page.length - 1];
+        res.json({
+          deliveries: page.map(sanitizeDelivery),
+          nextCursor:
+            deliveries.length > limit && last
+              ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+              : null,
+        });
       } catch (error) {
-        console.error("Get tasks error:", error);
+        console.error("Get webhook deliveries error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
+  // Queues a "ping" delivery; its outcome shows up in the delivery log
   app.post(
-    "/boards/:boardId/tasks",
+    "/webhooks/:webhookId/test",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { boardId } = req.params;
-        const { title, column, description } = req.body;
+        const { webhookId } = req.params;
         const userId = req.user!.userId;
-
-        // Verify access
-        const board = await boardsCol.findOne({ id: boardId });
-        if (!board) return res.status(404).json({ error: "Board not found" });
-
-        if (board.isPersonal && board.ownerId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
+        const loaded = await loadWebhookForUser(webhookId, userId);
+        if ("error" in loaded) {
+          return res.status(loaded.status).json({ error: loaded.error });
         }
-
-        if (!board.isPersonal && board.teamId) {
-          const team = await teamsCol.findOne({
-            id: board.teamId!,
-            members: userId,
-          });
-          if (!team)
-            return res.status(403).json({ error: "Not a member of this team" });
+        if (!loaded.webhook.active) {
+          return res.status(400).json({ error: "Webhook is disabled" });
         }
 
-        if (!title) return res.status(400).json({ error: "title required" });
-
-        const maxOrderDoc = await tasksCol
-          .find({ boardId, column: column || "todo" })
-          .sort({ order: -1 })
-          .limit(1)
-          .toArray();
-        const nextOrder =
-          maxOrderDoc[0]?.order != null ? maxOrderDoc[0].order + 1 : 0;
-
-        const task: Task = {
-          id: uuidv4(),
-          title,
-          description: description || "",
-          column: column || "todo",
-          createdAt: Date.now(),
-          order: nextOrder,
-          boardId,
-        };
-
-        await tasksCol.insertOne(task);
-        broadcastToBoard(boardId, { type: "task_created", task, boardId });
-        res.json(task);
+        const delivery = await queueDelivery(loaded.webhook, "ping", {
+          webhookId,
+          actorId: userId,
+        });
+        res.status(202).json(sanitizeDelivery(delivery));
       } catch (error) {
-        console.error("Create task error:", error);
+        console.error("Test webhook error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  app.put(
-    "/tasks/:taskId",
+  // ================= Search Routes =================
+  // Same filters as GET /boards/:boardId/tasks, across every board the caller
+  // can see. Newest tasks first.
+  app.get(
+    "/search/tasks",
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const { taskId } = req.params;
-        const { title, description, column } = req.body;
         const userId = req.user!.userId;
 
-        const task = await tasksCol.findOne({ id: taskId });
-        if (!task) {
-          return res.status(404).json({ error: "Task not found" });
+        const parsed = buildTaskFilter(req.query, userId);
+        if ("error" in parsed) {
+          return res.status(400).json({ error: parsed.error });
         }
 
-        // Verify access to the board
-        const board = await boardsCol.findOne({ id: task.boardId });
-        if (!board) return res.status(404).json({ error: "Board not found" });
-
-        if (board.isPersonal && board.ownerId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
+        const after = decodeCursor<{ createdAt: number; id: string }>(
+          req.query.cursor
+        );
+        if (req.query.cursor !== undefined && !after) {
+          return res.status(400).json({ error: "Invalid cursor" });
         }
 
-        if (!board.isPersonal && board.teamId) {
-          const team = await teamsCol.findOne({
-            id: board.teamId!,
-            members: userId,
-          });
-          if (!team)
-            return res.status(403).json({ error: "Not a member of this team" });
-        }
+        const boardFilter = await accessibleBoardsFilter(userId);
+        const requestedBoards = queryList(req.query.boardId);
+        const boards = await boardsCol
+          .find(
+            requestedBoards.length > 0
+              ? { $and: [boardFilter, { id: { $in: requestedBoards } }] }
+              : boardFilter,
+            { projection: { id: 1, name: 1 } }
+          )
+          .toArray();
+        const boardNames = new Map(boards.map((b) => [b.id, b.name]));
 
-        const updateData: any = {};
-        if (title !== undefined) updateData.title = title;
-        if (description !== undefined) updateData.description = description;
-        if (column !== undefined) updateData.column = column;
+        const filter: Filter<Task> = {
+          ...parsed.filter,
+          boardId: { $in: [...boardNames.keys()] },
+          deletedAt: null,
+        };
+        if (after) {
+          filter.$or = [
+            { createdAt: { $lt: after.createdAt } },
+            { createdAt: after.createdAt, id: { $gt: after.id } },
+          ];
+        }
 
-        await tasksCol.updateOne({ id: taskId }, { $set: updateData });
+        const limit = parseLimit(req.query.limit);
+        const tasks = await tasksCol
+          .find(filter)
+          .sort({ createdAt: -1, id: 1 })
+          .limit(limit + 1)
+          .toArray();
 
-        const updatedTask = await tasksCol.findOne({ id: taskId });
-        broadcastToBoard(task.boardId, {
-          type: "task_updated",
-          task: updatedTask,
-          boardId: task.boardId,
+        const page = tasks.slice(0, limit);
+        const last = page[page.length - 1];
+        res.json({
+          tasks: page.map((task) => ({
+            ...task,
+            boardName: boardNames.get(task.boardId),
+          })),
+          nextCursor:
+            tasks.length > limit && last
+              ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+              : null,
         });
-        res.json(updatedTask);
       } catch (error) {
-        console.error("Update task error:", error);
+        console.error("Search tasks error:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   );
 
-  app.delete(
-    "/tasks/:taskId",
-    authenticateToken,
-    async (req: Request, res: Response) => {
-      try {
-        const { taskId } = req.params;
-        const userId = req.user!.userId;
+  // ================= HTTP + WebSocket server =================
+  const server = http.createServer(app);
+  const wss = new WebSocketServer({ server, clientTracking: true });
 
-        const task = await tasksCol.findOne({ id: taskId });
-        if (!task) {
-          return res.status(404).json({ error: "Task not found" });
+  // Store connected clients by board
+  const boardConnections = new Map<string, Set<WebSocketClient>>();
+
+  // Sends to the board's sockets on this instance only
+  function sendToBoard(
+    boardId: string,
+    payload: ServerMessage,
+    exceptSocketId?: string
+  ) {
+    const msg = JSON.stringify(payload);
+    const clients = boardConnections.get(boardId);
+    if (clients) {
+      clients.forEach((client) => {
+        if (client.id !== exceptSocketId && client.readyState === 1) {
+          client.send(msg);
         }
+      });
+    }
+  }
 
-        // Verify access to the board
-        const board = await boardsCol.findOne({ id: task.boardId });
-        if (!board) return res.status(404).json({ error: "Board not found" });
+  // Everything meant for sockets goes through the pub/sub layer, so that
+  // events raised on one instance reach sockets held by any other
+  const fanout = createPubSub<FanoutMessage>(db);
 
-        if (board.isPersonal && board.ownerId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
-        }
+  function publish(message: FanoutMessage) {
+    return fanout
+      .publish(message)
+      .catch((error) => console.error("Fan-out publish error:", error));
+  }
 
-        if (!board.isPersonal && board.teamId) {
-          const team = await teamsCol.findOne({
-            id: board.teamId!,
-            members: userId,
-          });
-          if (!team)
-            return res.status(403).json({ error: "Not a member of this team" });
+  function handleFanout(message: FanoutMessage) {
+    switch (message.kind) {
+      case "board":
+        if (message.seq === undefined) {
+          sendBoardFanout(message);
+        } else {
+          deliverBoardFanout(message, message.seq);
         }
+        break;
+      case "close_sessions":
+        closeLocalSessionSockets(message.sessionIds);
+        break;
+      case "drop_subscriptions":
+        dropLocalSubscriptions(
+          message.userId,
+          message.boardIds,
+          message.reason
+        );
+        break;
+    }
+  }
 
-        await tasksCol.deleteOne({ id: taskId });
-        broadcastToBoard(task.boardId, {
-          type: "task_deleted",
-          id: taskId,
-          boardId: task.boardId,
+  // Queued so a live event can't overtake a replay in progress
+  function sendBoardFanout(message: Extract<FanoutMessage, { kind: "board" }>) {
+    enqueueForBoard(message.boardId, async () =>
+      sendToBoard(message.boardId, message.message, message.exceptSocketId)
+    );
+  }
+
+  // The pub/sub layer keeps publish order, but two instances numbering
+  // events for the same board can publish seq N+1 before seq N. Numbered
+  // events are therefore sent on in seq order: one that arrives early is
+  // held for up to FANOUT_REORDER_WINDOW_MS while the gap fills, after which
+  // it goes out anyway. Ordering is only tracked for boards with sockets on
+  // this instance; the first event seen for a board sets the starting point.
+  const boardFanoutOrder = new Map<
+    string,
+    {
+      next: number;
+      held: Map<number, Extract<FanoutMessage, { kind: "board" }>>;
+      timer: NodeJS.Timeout | null;
+    }
+  >();
+
+  function deliverBoardFanout(
+    message: Extract<FanoutMessage, { kind: "board" }>,
+    seq: number
+  ) {
+    const { boardId } = message;
+    if (!boardConnections.has(boardId)) {
+      const state = boardFanoutOrder.get(boardId);
+      if (state?.timer) clearTimeout(state.timer);
+      boardFanoutOrder.delete(boardId);
+      return;
+    }
+
+    let state = boardFanoutOrder.get(boardId);
+    if (!state) {
+      state = { next: seq, held: new Map(), timer: null };
+      boardFanoutOrder.set(boardId, state);
+    }
+    // Late after its gap was given up on: better late than never
+    if (seq < state.next) return sendBoardFanout(message);
+
+    state.held.set(seq, message);
+    while (state.held.has(state.next)) {
+      sendBoardFanout(state.held.get(state.next)!);
+      state.held.delete(state.next);
+      state.next++;
+    }
+
+    if (state.held.size === 0) {
+      if (state.timer) clearTimeout(state.timer);
+      state.timer = null;
+    } else if (!state.timer) {
+      const waiting = state;
+      waiting.timer = setTimeout(() => {
+        waiting.timer = null;
+        const seqs = [...waiting.held.keys()].sort((a, b) => a - b);
+        seqs.forEach((s) => sendBoardFanout(waiting.held.get(s)!));
+        waiting.held.clear();
+        waiting.next = seqs[seqs.length - 1] + 1;
+      }, FANOUT_REORDER_WINDOW_MS);
+      waiting.timer.unref();
+    }
+  }
+
+  await fanout.subscribe(handleFanout);
+
+  // Work that touches a board's event stream runs one job at a time per
+  // board, so events are numbered, logged and sent in the same order
+  const boardQueues = new Map<string, Promise<unknown>>();
+
+  function enqueueForBoard<T>(
+    boardId: string,
+    job: () => Promise<T>
+  ): Promise<T> {
+    const previous = boardQueues.get(boardId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(job);
+    boardQueues.set(boardId, next);
+    next
+      .catch(() => undefined)
+      .then(() => {
+        if (boardQueues.get(boardId) === next) boardQueues.delete(boardId);
+      });
+    return next;
+  }
+
+  // Numbers the event with the board's next sequence number, appends it to
+  // the board's event log (dropping entries beyond EVENT_LOG_SIZE) and
+  // publishes it to every subscriber. Callers don't wait for delivery.
+  function broadcastToBoard(boardId: string, event: BoardEvent) {
+    enqueueForBoard(boardId, async () => {
+      const board = await boardsCol.findOneAndUpdate(
+        { id: boardId },
+        { $inc: { eventSeq: 1 } },
+        { returnDocument: "after", projection: { eventSeq: 1 } }
+      );
+      // Purged boards have no stream left to log to
+      if (!board) {
+        await publish({
+          kind: "board",
+          boardId,
+          message: { ...event, seq: null },
         });
-        res.json({ success: true });
-      } catch (error) {
-        console.error("Delete task error:", error);
-        res.status(500).json({ error: "Internal server error" });
+        return;
       }
+
+      const seq = board.eventSeq!;
+      const sequenced: SequencedEvent = { ...event, seq };
+      await boardEventsCol.insertOne({
+        boardId,
+        seq,
+        event: sequenced,
+        createdAt: Date.now(),
+      });
+      await boardEventsCol.deleteMany({
+        boardId,
+        seq: { $lte: seq - EVENT_LOG_SIZE },
+      });
+      await publish({ kind: "board", boardId, message: sequenced, seq });
+    }).catch((error) => console.error("Broadcast error:", error));
+  }
+
+  // Ephemeral presence traffic: not numbered, not logged
+  function relayToBoard(
+    boardId: string,
+    event: PresenceEvent,
+    except?: WebSocketClient
+  ) {
+    publish({
+      kind: "board",
+      boardId,
+      message: event,
+      exceptSocketId: except?.id,
+    });
+  }
+
+  // Subscribes the socket and sends it everything after `since` from the
+  // board's event log, or a full snapshot when the log no longer reaches
+  // back that far. Runs in the board's queue so no live event can slip in
+  // between the replay and the subscription.
+  function resumeBoard(ws: WebSocketClient, boardId: string, since: number) {
+    return enqueueForBoard(boardId, async () => {
+      await subscribe(ws, boardId);
+      if (!ws.boardIds?.has(boardId)) return;
+
+      const board = await boardsCol.findOne({ id: boardId, deletedAt: null });
+      if (!board) return;
+      const seq = board.eventSeq ?? 0;
+      if (since === seq) return;
+
+      const events =
+        since < seq
+          ? await boardEventsCol
+              .find({ boardId, seq: { $gt: since } })
+              .sort({ seq: 1 })
+              .toArray()
+          : [];
+      if (events.length === seq - since) {
+        events.forEach((record) => sendTo(ws, record.event));
+        return;
+      }
+
+      const tasks = await tasksCol
+        .find({ boardId, archivedAt: null, deletedAt: null })
+        .sort({ column: 1, rank: 1, id: 1 })
+        .toArray();
+      sendTo(ws, {
+        type: "snapshot",
+        board: withColumns(board),
+        tasks,
+        seq,
+        boardId,
+      });
+    });
+  }
+
+  // A reorder may only target existing columns, may not move tasks into an
+  // archived column, and may not push a column past its WIP limit.
+  async function validateReorderColumns(
+    board: Board,
+    updates: Pick<Task, "id" | "column">[],
+    session?: ClientSession
+  ): Promise<string | null> {
+    const columns = getBoardColumns(board);
+    const current = await tasksCol
+      .find(
+        { boardId: board.id, archivedAt: null, deletedAt: null },
+        { projection: { id: 1, column: 1 }, session }
+      )
+      .toArray();
+    const currentColumn = new Map(current.map((t) => [t.id, t.column]));
+    const finalColumn = new Map(currentColumn);
+    for (const t of updates) {
+      if (currentColumn.has(t.id)) finalColumn.set(t.id, t.column);
     }
-  );
 
-  // ================= HTTP + WebSocket server =================
-  const server = http.createServer(app);
-  const wss = new WebSocketServer({ server, clientTracking: true });
+    for (const t of updates) {
+      const column = columns.find((c) => c.id === t.column);
+      if (!column) return `Unknown column: ${t.column}`;
+      if (column.archived && currentColumn.get(t.id) !== t.column) {
+        return `Column "${column.name}" is archived`;
+      }
+    }
 
-  // Store connected clients by board
-  const boardConnections = new Map<string, Set<WebSocketClient>>();
+    for (const column of columns) {
+      if (column.wipLimit === null) continue;
+      const count = (map: Map<string, string>) =>
+        [...map.values()].filter((c) => c === column.id).length;
+      const after = count(finalColumn);
+      if (after > column.wipLimit && after > count(currentColumn)) {
+        return `Column "${column.name}" is at its WIP limit of ${column.wipLimit}`;
+      }
+    }
+    return null;
+  }
 
-  function broadcastToBoard(boardId: string, payload: any) {
-    const msg = JSON.stringify(payload);
+  // Presence is derived from board subscriptions: a user is on a board while
+  // at least one of their sockets follows it. Only this instance's sockets
+  // are known here, so with several instances the snapshot covers the users
+  // connected to this one; joins and leaves still reach everyone.
+  function isUserOnBoard(boardId: string, userId: string) {
+    return [...(boardConnections.get(boardId) ?? [])].some(
+      (client) => client.userId === userId
+    );
+  }
+
+  function presenceUser(user: User): PresenceUser {
+    return { id: user.id, name: user.name, avatarUrl: user.avatarUrl ?? null };
+  }
+
+  // Subscribes the socket, sends it who is already on the board and tells
+  // everyone else if its user just arrived. Callers await access checks
+  // first; a socket that closed meanwhile has already been cleaned up by its
+  // close handler and must not be added back.
+  async function subscribe(ws: WebSocketClient, boardId: string) {
+    if (ws.readyState !== 1 || ws.boardIds?.has(boardId)) return;
+    const userId = ws.userId!;
+    const arriving = !isUserOnBoard(boardId, userId);
+
+    if (!ws.boardIds) ws.boardIds = new Set();
+    ws.boardIds.add(boardId);
+    if (!boardConnections.has(boardId)) {
+      boardConnections.set(boardId, new Set());
+    }
+    boardConnections.get(boardId)!.add(ws);
+
+    const userIds = [
+      ...new Set([...boardConnections.get(boardId)!].map((c) => c.userId!)),
+    ];
+    const users = await usersCol.find({ id: { $in: userIds } }).toArray();
+    sendTo(ws, {
+      type: "presence",
+      users: users.map(presenceUser),
+      boardId,
+    });
+
+    const user = users.find((u) => u.id === userId);
+    if (arriving && user) {
+      relayToBoard(
+        boardId,
+        { type: "user_joined", user: presenceUser(user), boardId },
+        ws
+      );
+    }
+  }
+
+  function unsubscribe(ws: WebSocketClient, boardId: string) {
+    if (!ws.boardIds?.delete(boardId)) return;
     const clients = boardConnections.get(boardId);
-    if (clients) {
-      clients.forEach((client) => {
-        if (client.readyState === 1) {
-          client.send(msg);
+    clients?.delete(ws);
+    if (clients?.size === 0) boardConnections.delete(boardId);
+
+    if (ws.userId && !isUserOnBoard(boardId, ws.userId)) {
+      relayToBoard(boardId, {
+        type: "user_left",
+        userId: ws.userId,
+        boardId,
+      });
+    }
+  }
+
+  function sendTo(ws: WebSocketClient, message: ServerMessage) {
+    if (ws.readyState === 1) ws.send(JSON.stringify(message));
+  }
+
+  // Drops a user's subscriptions to boards they lost access to, on every
+  // instance; their sockets stay open for any other boards they follow
+  function disconnectUserFromBoards(
+    userId: string,
+    boardIds: string[],
+    reason: string
+  ) {
+    publish({ kind: "drop_subscriptions", userId, boardIds, reason });
+  }
+
+  function dropLocalSubscriptions(
+    userId: string,
+    boardIds: string[],
+    reason: string
+  ) {
+    for (const boardId of boardIds) {
+      boardConnections.get(boardId)?.forEach((client) => {
+        if (client.userId === userId) {
+          unsubscribe(client, boardId);
+          sendTo(client, { type: "unsubscribed", boardId, reason });
         }
       });
     }
   }
 
-  function broadcast(payload: any) {
+  function closeSessionSockets(sessionIds: string[]) {
+    publish({ kind: "close_sessions", sessionIds });
+  }
+
+  function closeLocalSessionSockets(sessionIds: string[]) {
+    wss.clients.forEach((client: WebSocketClient) => {
+      if (client.sessionId && sessionIds.includes(client.sessionId)) {
+        client.close(1008, "Session revoked");
+      }
+    });
+  }
+
+  function broadcast(payload: ServerMessage) {
     const msg = JSON.stringify(payload);
     wss.clients.forEach((client: any) => {
       if (client.readyState === 1) {
@@ -761,12 +6663,154 @@ app.get("/users", authenticateToken, async (req: Request, res: Response) => {
     });
   }
 
+  // Runs one inbound socket message with the same checks as the REST API
+  async function handleClientMessage(
+    ws: WebSocketClient,
+    msg: ClientMessage
+  ): Promise<
+    { task?: Task } | { status: number; error: string; current?: Task }
+  > {
+    const userId = ws.userId!;
+    switch (msg.type) {
+      // Following a board needs the same access as GET /boards/:boardId
+      case "subscribe": {
+        const loaded = await loadBoardForUser(msg.boardId, userId, "viewer");
+        if ("error" in loaded) return loaded;
+        await subscribe(ws, loaded.board.id);
+        return {};
+      }
+
+      // Catch up after a reconnect: replays the events after `since`, or
+      // sends a snapshot if they are no longer in the log
+      case "resume": {
+        if (!Number.isInteger(msg.since) || msg.since < 0) {
+          return { status: 400, error: "since must be a non-negative integer" };
+        }
+        const loaded = await loadBoardForUser(msg.boardId, userId, "viewer");
+        if ("error" in loaded) return loaded;
+        await resumeBoard(ws, loaded.board.id, msg.since);
+        return {};
+      }
+
+      case "unsubscribe": {
+        if (typeof msg.boardId === "string") unsubscribe(ws, msg.boardId);
+        return {};
+      }
+
+      // Editing/dragging signals are relayed to the board's other sockets
+      // and never stored
+      case "signal": {
+        if (typeof msg.boardId !== "string" || !ws.boardIds?.has(msg.boardId)) {
+          return { status: 403, error: "Not subscribed to this board" };
+        }
+        if (typeof msg.taskId !== "string") {
+          return { status: 400, error: "taskId required" };
+        }
+        if (!SIGNAL_STATES.includes(msg.state)) {
+          return {
+            status: 400,
+            error: `state must be one of: ${SIGNAL_STATES.join(", ")}`,
+          };
+        }
+        relayToBoard(
+          msg.boardId,
+          {
+            type: "user_signal",
+            userId,
+            taskId: msg.taskId,
+            state: msg.state,
+            boardId: msg.boardId,
+          },
+          ws
+        );
+        return {};
+      }
+
+      case "task_create": {
+        const loaded = await loadBoardForUser(msg.boardId, userId, "member");
+        if ("error" in loaded) return loaded;
+        return createTask(userId, loaded.board, msg);
+      }
+
+      case "task_update": {
+        if (msg.version !== undefined && !Number.isInteger(msg.version)) {
+          return { status: 400, error: "version must be an integer" };
+        }
+        const loaded = await loadTaskForUser(msg.taskId, userId, "member");
+        if ("error" in loaded) return loaded;
+        return updateTask(userId, loaded.board, loaded.task, msg, msg.version);
+      }
+
+      case "task_delete": {
+        const loaded = await loadTaskForUser(msg.taskId, userId, "member");
+        if ("error" in loaded) return loaded;
+        await deleteTask(userId, loaded.board, loaded.task);
+        return {};
+      }
+
+      case "move": {
+        const loaded = await loadTaskForUser(msg.taskId, userId, "member");
+        if ("error" in loaded) return loaded;
+        const result = await moveTask(userId, loaded.board, loaded.task, msg);
+        if ("error" in result) {
+          return { status: result.stale ? 409 : 400, error: result.error };
+        }
+        return result;
+      }
+
+      case "reorder": {
+        const loaded = await loadBoardForUser(msg.boardId, userId, "member");
+        if ("error" in loaded) return loaded;
+        const { board } = loaded;
+
+        const parsed = parseReorderEntries(msg.tasks);
+        if ("error" in parsed) return { status: 400, error: parsed.error };
+
+        // Stale clients should refetch the board and retry
+        const result = await applyReorder(board, parsed.entries);
+        if ("error" in result) {
+          return { status: result.stale ? 409 : 400, error: result.error };
+        }
+
+        // Get the updated tasks to broadcast
+        const updatedTasks = await tasksCol
+          .find({ boardId: board.id, archivedAt: null, deletedAt: null })
+          .sort({ column: 1, rank: 1, id: 1 })
+          .toArray();
+        await recordTaskMoves(userId, board, result.previous, updatedTasks);
+
+        broadcastToBoard(board.id, {
+          type: "tasks_reorder",
+          tasks: updatedTasks,
+          boardId: board.id,
+        });
+        return {};
+      }
+
+      default:
+        return {
+          status: 400,
+          error: `Unknown message type: ${(msg as { type: string }).type}`,
+        };
+    }
+  }
+
   wss.on("connection", (ws: WebSocketClient, req) => {
     console.log("New WebSocket connection attempt");
 
     const url = new URL(req.url!, `http://${req.headers.host}`);
     const token = url.searchParams.get("token");
     const boardId = url.searchParams.get("boardId");
+    const since = url.searchParams.get("since");
+
+    ws.id = uuidv4();
+    const send = (message: ServerMessage) => sendTo(ws, message);
+
+    // Heartbeat: a socket that misses a ping round is considered gone
+    ws.isAlive = true;
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
 
     if (!token) {
       console.log("WebSocket connection rejected: No token");
@@ -774,88 +6818,127 @@ app.get("/users", authenticateToken, async (req: Request, res: Response) => {
       return;
     }
 
-    // Verify JWT token
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-      if (err) {
+    const authenticateSocket = async (err: any, user: JwtPayload) => {
+      if (err || !user.userId || !user.sessionId) {
         console.log("WebSocket connection rejected: Invalid token");
         ws.close(1008, "Invalid token");
         return;
       }
 
+      try {
+        if (!(await isSessionActive(user.sessionId))) {
+          console.log("WebSocket connection rejected: Session revoked");
+          ws.close(1008, "Session revoked");
+          return;
+        }
+      } catch (error) {
+        console.error("WebSocket session lookup error:", error);
+        ws.close(1011, "Internal server error");
+        return;
+      }
+
       ws.userId = user.userId;
+      ws.sessionId = user.sessionId;
 
+      // `?boardId=` subscribes to that board straight away, with the same
+      // access check as a subscribe message; adding `&since=` resumes instead
       if (boardId) {
-        ws.boardId = boardId;
-
-        // Add to board connections
-        if (!boardConnections.has(boardId)) {
-          boardConnections.set(boardId, new Set());
+        try {
+          const loaded = await loadBoardForUser(boardId, user.userId, "viewer");
+          if ("error" in loaded) {
+            send({
+              type: "error",
+              requestId: null,
+              status: loaded.status,
+              error: loaded.error,
+            });
+          } else if (since !== null && /^\d+$/.test(since)) {
+            await resumeBoard(ws, boardId, Number(since));
+          } else {
+            await subscribe(ws, boardId);
+          }
+        } catch (error) {
+          console.error("WebSocket subscribe error:", error);
         }
-        boardConnections.get(boardId)!.add(ws);
       }
 
       console.log(
         `User ${user.userId} connected to board ${boardId || "none"}`
       );
-    });
+    };
+
+    // Verify JWT token and that its session is still live. Messages sent
+    // before this settles wait for it instead of being rejected.
+    const authenticated = new Promise<void>((resolve) =>
+      jwt.verify(token, JWT_SECRET, async (err: any, user: JwtPayload) => {
+        try {
+          await authenticateSocket(err, user);
+        } finally {
+          resolve();
+        }
+      })
+    );
 
     ws.on("message", async (data: any) => {
+      let msg: ClientMessage;
       try {
-        const msg = JSON.parse(data.toString());
-        console.log("WebSocket message received:", msg.type);
-
-        if (msg.type === "reorder") {
-          const updates = msg.tasks as Task[];
-          const boardId = msg.boardId;
-
-          // Verify user has access to this board
-          if (ws.userId && boardId) {
-            const board = await boardsCol.findOne({ id: boardId });
-            if (board) {
-              const hasAccess = board.isPersonal
-                ? board.ownerId === ws.userId
-                : await teamsCol.findOne({
-                    id: board.teamId!,
-                    members: ws.userId,
-                  });
-
-              if (hasAccess) {
-                console.log("Processing reorder for", updates.length, "tasks");
-
-                // Update all tasks in a transaction
-                for (const t of updates) {
-                  await tasksCol.updateOne(
-                    { id: t.id, boardId: boardId },
-                    { $set: { column: t.column, order: t.order } }
-                  );
-                }
-
-                // Get the updated tasks to broadcast
-                const updatedTasks = await tasksCol
-                  .find({ boardId })
-                  .sort({ column: 1, order: 1 })
-                  .toArray();
-
-                broadcastToBoard(boardId, {
-                  type: "tasks_reorder",
-                  tasks: updatedTasks,
-                  boardId,
-                });
-
-                console.log("Reorder completed and broadcasted");
-              }
-            }
-          }
+        msg = JSON.parse(data.toString());
+      } catch {
+        return send({
+          type: "error",
+          requestId: null,
+          status: 400,
+          error: "Message is not valid JSON",
+        });
+      }
+      if (typeof msg?.type !== "string") {
+        return send({
+          type: "error",
+          requestId: null,
+          status: 400,
+          error: "Message type required",
+        });
+      }
+      const requestId =
+        typeof msg.requestId === "string" ? msg.requestId : null;
+      console.log("WebSocket message received:", msg.type);
+
+      await authenticated;
+      if (!ws.userId) {
+        return send({
+          type: "error",
+          requestId,
+          status: 401,
+          error: "Authentication required",
+        });
+      }
+
+      try {
+        const result = await handleClientMessage(ws, msg);
+        if ("error" in result) {
+          send({
+            type: "error",
+            requestId,
+            status: result.status,
+            error: result.error,
+            task: result.current,
+          });
+        } else {
+          send({ type: "ack", requestId, task: result.task });
         }
       } catch (err) {
         console.error("WebSocket message error:", err);
+        send({
+          type: "error",
+          requestId,
+          status: 500,
+          error: "Internal server error",
+        });
       }
     });
 
     ws.on("close", () => {
-      if (ws.boardId && boardConnections.has(ws.boardId)) {
-        boardConnections.get(ws.boardId)!.delete(ws);
-      }
+      ws.boardIds?.forEach((boardId) => unsubscribe(ws, boardId));
     });
 
     ws.on("error", (error) => {
@@ -863,6 +6946,20 @@ app.get("/users", authenticateToken, async (req: Request, res: Response) => {
     });
   });
 
+  // Ping every socket periodically and drop the ones that stopped answering,
+  // so presence doesn't keep showing users whose connection died silently
+  const heartbeatTimer = setInterval(() => {
+    wss.clients.forEach((client: WebSocketClient) => {
+      if (!client.isAlive) {
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+
   // Health check endpoint
   app.get("/health", (req: Request, res: Response) => {
     res.json({ status: "OK", timestamp: new Date().toISOString() });
@@ -879,6 +6976,30 @@ app.get("/users", authenticateToken, async (req: Request, res: Response) => {
     res.status(500).json({ error: "Internal server error" });
   });
 
+  // Empty the trash of anything past its retention period, hourly
+  const purgeTimer = setInterval(() => {
+    purgeExpiredTrash().catch((error) =>
+      console.error("Trash purge error:", error)
+    );
+  }, 60 * 60 * 1000);
+  purgeTimer.unref();
+  purgeExpiredTrash().catch((error) =>
+    console.error("Trash purge error:", error)
+  );
+
+  // Retry webhook deliveries whose backoff has run out. A tick is skipped
+  // while the previous sweep is still sending.
+  let retrySweep: Promise<void> | null = null;
+  const webhookTimer = setInterval(() => {
+    if (retrySweep) return;
+    retrySweep = retryDueDeliveries()
+      .catch((error) => console.error("Webhook retry error:", error))
+      .finally(() => {
+        retrySweep = null;
+      });
+  }, 15 * 1000);
+  webhookTimer.unref();
+
   server.listen(PORT, () => {
     console.log(`Backend listening on port ${PORT}`);
   });
@@ -886,6 +7007,7 @@ app.get("/users", authenticateToken, async (req: Request, res: Response) => {
   // Graceful shutdown
   process.on("SIGTERM", async () => {
     console.log("SIGTERM received, shutting down gracefully");
+    await fanout.close();
     await mongo.close();
     server.close(() => {
       console.log("Process terminated");
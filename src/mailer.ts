@@ -0,0 +1,55 @@
+// backend/mailer.ts
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints outgoing mail to stdout; the default for local development.
+export class ConsoleMailer implements Mailer {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage) {
+    console.log(
+      `[mail] from=${this.from} to=${message.to} subject="${message.subject}"\n${message.text}`
+    );
+  }
+}
+
+// Writes each message as a JSON file so tests can read what was "sent".
+export class FileMailer implements Mailer {
+  constructor(private from: string, private dir: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(
+      this.dir,
+      `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`
+    );
+    await fs.writeFile(
+      file,
+      JSON.stringify({ from: this.from, ...message, sentAt: Date.now() }, null, 2)
+    );
+  }
+}
+
+export function createMailer(): Mailer {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+  const from = process.env.MAIL_FROM || "no-reply@taskboard.local";
+
+  switch (transport) {
+    case "console":
+      return new ConsoleMailer(from);
+    case "file":
+      return new FileMailer(from, process.env.MAIL_DIR || "mail");
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
@@ -0,0 +1,142 @@
+// backend/pubsub.ts
+import {
+  ChangeStream,
+  ChangeStreamInsertDocument,
+  Collection,
+  Db,
+  ResumeToken,
+} from "mongodb";
+
+// Fan-out between server instances. Every instance subscribes once and
+// receives every published message, including its own.
+export interface PubSub<T> {
+  publish(message: T): Promise<void>;
+  subscribe(handler: (message: T) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Single-process fan-out; the default when only one instance runs.
+export class MemoryPubSub<T> implements PubSub<T> {
+  private handlers: ((message: T) => void)[] = [];
+
+  async publish(message: T) {
+    for (const handler of this.handlers) {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error("PubSub handler error:", error);
+      }
+    }
+  }
+
+  async subscribe(handler: (message: T) => void) {
+    this.handlers.push(handler);
+  }
+
+  async close() {
+    this.handlers = [];
+  }
+}
+
+interface PubSubRecord<T> {
+  message: T;
+  createdAt: Date;
+}
+
+// Publishes by inserting into a collection and receives through a change
+// stream on it, so all instances sharing the database see every message in
+// insertion order. Change streams need MongoDB running as a replica set; to
+// try it locally, start two instances on different PORTs with
+// PUBSUB_ADAPTER=mongo against the same database.
+export class MongoPubSub<T> implements PubSub<T> {
+  private stream: ChangeStream<
+    PubSubRecord<T>,
+    ChangeStreamInsertDocument<PubSubRecord<T>>
+  > | null = null;
+  private handler: ((message: T) => void) | null = null;
+  private resumeToken: ResumeToken | null = null;
+  private failures = 0;
+  private closed = false;
+
+  constructor(
+    private collection: Collection<PubSubRecord<T>>,
+    private maxReopenAttempts = 5
+  ) {}
+
+  async publish(message: T) {
+    await this.collection.insertOne({ message, createdAt: new Date() });
+  }
+
+  async subscribe(handler: (message: T) => void) {
+    // Messages only need to live long enough to reach the change stream
+    await this.collection.createIndex(
+      { createdAt: 1 },
+      { expireAfterSeconds: 60 }
+    );
+    this.handler = handler;
+    this.open();
+  }
+
+  // The driver already resumes the stream across transient errors, so an
+  // "error" event means it has closed for good. Reopen it after the last
+  // change seen so that no message is skipped; if that keeps failing, exit
+  // and let the process supervisor restart the instance rather than run on
+  // without fan-out.
+  private open() {
+    if (this.closed) return;
+    const stream = this.collection.watch<
+      PubSubRecord<T>,
+      ChangeStreamInsertDocument<PubSubRecord<T>>
+    >(
+      [{ $match: { operationType: "insert" } }],
+      this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+    );
+    stream.on("resumeTokenChanged", (token) => {
+      this.resumeToken = token;
+      this.failures = 0;
+    });
+    stream.on("change", (change) => {
+      try {
+        this.handler?.(change.fullDocument.message);
+      } catch (error) {
+        console.error("PubSub handler error:", error);
+      }
+    });
+    stream.on("error", (error) => {
+      console.error("PubSub change stream error:", error);
+      stream.close().catch(() => undefined);
+      if (this.closed || this.stream !== stream) return;
+
+      this.failures++;
+      if (this.failures > this.maxReopenAttempts) {
+        console.error("PubSub change stream could not be reopened, exiting");
+        process.exit(1);
+      }
+      setTimeout(() => this.open(), 1000 * this.failures).unref();
+    });
+    this.stream = stream;
+  }
+
+  async close() {
+    this.closed = true;
+    await this.stream?.close();
+    this.stream = null;
+  }
+}
+
+export function createPubSub<T>(db: Db): PubSub<T> {
+  const adapter = process.env.PUBSUB_ADAPTER || "memory";
+
+  switch (adapter) {
+    case "memory":
+      return new MemoryPubSub<T>();
+    case "mongo":
+      return new MongoPubSub<T>(
+        db.collection<PubSubRecord<T>>(
+          process.env.PUBSUB_COLLECTION || "pubsub"
+        )
+      );
+    default:
+      throw new Error(`Unknown PUBSUB_ADAPTER: ${adapter}`);
+  }
+}
@@ -4,15 +4,22 @@ export type User = {
   email: string;
   password: string; // hashed
   name: string;
+  avatarUrl?: string | null;
+  timezone?: string | null; // IANA zone, e.g. "Europe/Berlin"
   createdAt: number;
 };
 
+export type TeamRole = "owner" | "admin" | "member" | "viewer";
+
 export type Team = {
   id: string;
   name: string;
   ownerId: string; // user who created the team
   members: string[]; // user IDs
+  roles?: Record<string, TeamRole>; // userId -> role, missing entries are "member"
   createdAt: number;
+  deletedAt?: number | null; // set while the team sits in the trash
+  deletedBy?: string | null;
 };
 
 export type Board = {
@@ -21,15 +28,334 @@ export type Board = {
   teamId: string | null; // null for personal boards
   ownerId: string; // user who created the board
   isPersonal: boolean;
+  columns?: BoardColumn[]; // in display order; missing on legacy boards
   createdAt: number;
+  version: number; // bumped on every edit, served as the ETag
+  eventSeq?: number; // sequence number of the board's latest event
+  deletedAt?: number | null; // set while the board sits in the trash
+  deletedBy?: string | null;
+};
+
+export type BoardColumn = {
+  id: string;
+  name: string;
+  wipLimit: number | null; // max tasks in the column, null for unlimited
+  archived: boolean;
 };
 
 export type Task = {
   id: string;
   title: string;
   description?: string;
-  column: "todo" | "inprogress" | "done" | "unsure";
+  column: string; // id of one of the board's columns
   createdAt: number;
-  order: number;
+  rank: string; // lexicographic sort key within the column
+  version: number; // bumped on every write, served as the ETag
   boardId: string; // which board this task belongs to
-};
\ No newline at end of file
+  assigneeIds?: string[]; // user IDs, must be members of the board's team
+  dueDate?: number | null;
+  priority?: TaskPriority;
+  labelIds?: string[]; // labels defined on the same board
+  movedAt?: number; // last time the task entered its current column
+  archivedAt?: number | null; // archived tasks stay off the board
+  archivedBy?: string | null;
+  deletedAt?: number | null; // set while the task sits in the trash
+  deletedBy?: string | null;
+};
+
+export type TaskPriority = "none" | "low" | "medium" | "high" | "urgent";
+
+export type Comment = {
+  id: string;
+  taskId: string;
+  boardId: string;
+  authorId: string;
+  body: string;
+  mentions: string[]; // user IDs resolved from @mentions in the body
+  createdAt: number;
+  updatedAt: number | null;
+};
+
+export type Label = {
+  id: string;
+  boardId: string;
+  name: string;
+  color: string; // #rrggbb
+  createdAt: number;
+};
+
+export type InvitationStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "expired"
+  | "revoked";
+
+export type Invitation = {
+  id: string;
+  teamId: string;
+  email: string;
+  role: TeamRole;
+  invitedBy: string; // user ID of the inviter
+  inviteeId: string | null; // set once the email belongs to a registered user
+  status: InvitationStatus;
+  createdAt: number;
+  expiresAt: number;
+  respondedAt?: number;
+};
+
+export type ActivityAction =
+  | "task.created"
+  | "task.updated"
+  | "task.moved"
+  | "task.deleted"
+  | "task.restored"
+  | "task.archived"
+  | "task.unarchived"
+  | "board.renamed"
+  | "board.deleted"
+  | "board.restored"
+  | "team.invited"
+  | "team.deleted"
+  | "team.restored";
+
+export type Activity = {
+  id: string;
+  action: ActivityAction;
+  actorId: string; // user who made the change
+  teamId: string | null;
+  boardId: string | null;
+  taskId: string | null;
+  before: Record<string, unknown> | null; // changed fields only
+  after: Record<string, unknown> | null;
+  createdAt: number;
+};
+
+export type WebhookEvent = Extract<
+  ActivityAction,
+  `task.${string}` | `board.${string}`
+>;
+
+// The signing secret is only returned when the webhook is created
+export type Webhook = {
+  id: string;
+  boardId: string | null; // exactly one of boardId/teamId is set
+  teamId: string | null;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdBy: string;
+  createdAt: number;
+};
+
+// Writable webhook fields, as accepted when creating (url and events
+// required) or updating a webhook
+export type WebhookInput = {
+  url?: string;
+  events?: WebhookEvent[];
+  secret?: string; // generated on create when omitted
+  active?: boolean;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | "ping";
+  payload: {
+    id: string; // same as the delivery id and X-Taskboard-Delivery
+    event: WebhookEvent | "ping";
+    createdAt: number;
+    data: Record<string, unknown>; // the Activity entry, for real events
+  };
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: number | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+};
+
+// GET /boards/:boardId/export?format=json, accepted back by POST /boards/import.
+// Labels and assignees are referenced by name and email so that a file can
+// move between environments.
+export type BoardExport = {
+  format: "taskboard.board";
+  version: 1;
+  exportedAt: number;
+  board: { name: string; columns: BoardColumn[] };
+  labels: { name: string; color: string }[];
+  tasks: ExportedTask[]; // grouped by column in display order
+};
+
+export type ExportedTask = {
+  title: string;
+  description: string;
+  column: string; // column id
+  order: number; // 0-based position within the column
+  priority: TaskPriority;
+  dueDate: number | null;
+  labels: string[]; // label names
+  assignees: string[]; // user emails
+  archived: boolean;
+};
+
+// One problem with one task of an import; `row` is the 1-based index into
+// `tasks` for JSON, the spreadsheet row (header = 1) for CSV
+export type ImportIssue = { row: number; message: string };
+
+// As listed by GET /auth/tokens. POST /auth/tokens also returns the full
+// `token`, once; only its prefix is kept afterwards.
+export type PersonalAccessToken = {
+  id: string;
+  userId: string;
+  name: string;
+  tokenPrefix: string;
+  scope: "read" | "write"; // read tokens may only make GET requests
+  boardIds: string[]; // with teamIds, limits the token; both empty = no limit
+  teamIds: string[];
+  createdAt: number;
+  lastUsedAt: number | null;
+  expiresAt: number | null;
+  revokedAt: number | null;
+};
+
+// ---- WebSocket protocol ----
+// Clients may tag any message with a `requestId`. The server answers every
+// client message with an `ack` or an `error` echoing that id (null when none
+// was sent); all other server messages are board events.
+
+// Editable task fields, as accepted by POST /boards/:boardId/tasks and
+// PUT /tasks/:taskId
+export type TaskInput = {
+  title?: string;
+  description?: string;
+  column?: string;
+  assigneeIds?: string[];
+  dueDate?: number | string | null; // timestamp or ISO date
+  priority?: TaskPriority;
+  labelIds?: string[];
+};
+
+// What another user is doing with a task; "idle" clears an earlier signal
+export type SignalState = "editing" | "dragging" | "idle";
+
+export type PresenceUser = {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+};
+
+export type ReorderEntry = {
+  id: string;
+  column: string;
+  order: number; // target index within the column
+  version: number; // task version the move was based on
+};
+
+export type ClientMessage =
+  // A socket can follow any number of boards; subscribing needs at least
+  // viewer access to the board
+  | { type: "subscribe"; requestId?: string; boardId: string }
+  | { type: "unsubscribe"; requestId?: string; boardId: string }
+  // Subscribes and replays every event after `since`, or sends a snapshot
+  // when those events are no longer in the board's log
+  | { type: "resume"; requestId?: string; boardId: string; since: number }
+  | {
+      type: "signal";
+      requestId?: string;
+      boardId: string; // must be subscribed
+      taskId: string;
+      state: SignalState;
+    }
+  | ({
+      type: "task_create";
+      requestId?: string;
+      boardId: string;
+      title: string;
+    } & TaskInput)
+  | ({
+      type: "task_update";
+      requestId?: string;
+      taskId: string;
+      version?: number; // like If-Match: rejected when the task has moved on
+    } & TaskInput)
+  | { type: "task_delete"; requestId?: string; taskId: string }
+  | {
+      type: "move";
+      requestId?: string;
+      taskId: string;
+      column?: string; // defaults to the task's current column
+      prevTaskId?: string | null;
+      nextTaskId?: string | null;
+    }
+  | {
+      type: "reorder";
+      requestId?: string;
+      boardId: string;
+      tasks: ReorderEntry[];
+    };
+
+// Presence: a snapshot goes to each new subscriber, then joins and leaves.
+// These are live-only and carry no sequence number.
+export type PresenceEvent =
+  | { type: "presence"; users: PresenceUser[]; boardId: string }
+  | { type: "user_joined"; user: PresenceUser; boardId: string }
+  | { type: "user_left"; userId: string; boardId: string }
+  | {
+      type: "user_signal";
+      userId: string;
+      taskId: string;
+      state: SignalState;
+      boardId: string;
+    };
+
+// Changes to a board's content, numbered per board by `seq`
+export type BoardEvent =
+  | { type: "board_updated"; board: Board; boardId: string }
+  | { type: "board_deleted"; boardId: string }
+  | { type: "board_restored"; board: Board; tasks: Task[]; boardId: string }
+  | { type: "task_created"; task: Task; boardId: string }
+  | { type: "task_updated"; task: Task; version: number; boardId: string }
+  | { type: "task_moved"; task: Task; boardId: string }
+  | { type: "task_deleted"; id: string; boardId: string }
+  | { type: "task_archived"; id: string; boardId: string }
+  | { type: "task_unarchived"; task: Task; boardId: string }
+  | { type: "tasks_reorder"; tasks: Task[]; boardId: string }
+  | {
+      type: "column_rebalanced";
+      column: string;
+      tasks: { id: string; rank: string }[];
+      boardId: string;
+    }
+  | { type: "label_created"; label: Label; boardId: string }
+  | { type: "label_updated"; label: Label; boardId: string }
+  | { type: "label_deleted"; id: string; boardId: string }
+  | { type: "comment_created"; comment: Comment; boardId: string }
+  | { type: "comment_updated"; comment: Comment; boardId: string }
+  | { type: "comment_deleted"; id: string; taskId: string; boardId: string };
+
+// `seq` increases by one with every event on the board; it is null only for
+// the final events of a board that has been permanently deleted
+export type SequencedEvent = BoardEvent & { seq: number | null };
+
+export type ServerMessage =
+  | SequencedEvent
+  | PresenceEvent
+  | {
+      type: "snapshot";
+      board: Board;
+      tasks: Task[]; // live tasks in board order
+      seq: number; // resume from here
+      boardId: string;
+    }
+  | { type: "ack"; requestId: string | null; task?: Task }
+  // Sent when the server drops a subscription, e.g. after losing access
+  | { type: "unsubscribed"; boardId: string; reason: string }
+  | {
+      type: "error";
+      requestId: string | null;
+      status: number; // mirrors the HTTP status the REST API would use
+      error: string;
+      task?: Task; // the current task when an update was stale
+    };
@@ -0,0 +1,137 @@
+// backend/webhooks.ts
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { Agent, fetch } from "undici";
+
+export interface WebhookAttempt {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// Receivers recompute this over the raw request body with their copy of the
+// secret and compare it to the X-Taskboard-Signature header.
+export function signWebhookBody(secret: string, body: string): string {
+  return (
+    "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex")
+  );
+}
+
+// Loopback, private, link-local (where cloud metadata endpoints live) and
+// other special-purpose ranges. Webhooks may not point into them, so board
+// admins can't use the server to reach internal services.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv6");
+}
+
+const BLOCKED_TARGET_ERROR =
+  "Webhook URL must not point to a private or local address";
+
+// WEBHOOK_ALLOW_PRIVATE_URLS=true turns the address checks off for local
+// development
+function isBlockedAddress({ address, family }: dns.LookupAddress): boolean {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true") return false;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves hosts for webhook connections and refuses blocked addresses, so
+// the socket connects to exactly the addresses that were checked; a DNS
+// answer that changes after checkWebhookTarget can't lead anywhere else.
+const checkedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.some(isBlockedAddress)) {
+      return callback(new Error(BLOCKED_TARGET_ERROR), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const webhookAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+// Resolves the URL's host and returns an error if any address it resolves
+// to is blocked. Checked when a webhook is saved and again before each send;
+// at send time the connection itself is also held to checked addresses.
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(host)
+      ? [{ address: host, family: net.isIP(host) }]
+      : await dns.promises.lookup(host, { all: true });
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+  return addresses.some(isBlockedAddress) ? BLOCKED_TARGET_ERROR : null;
+}
+
+// POSTs one delivery. Never throws: network errors, timeouts and non-2xx
+// responses all come back as a failed attempt.
+export async function postWebhook(
+  url: string,
+  secret: string,
+  headers: { event: string; deliveryId: string },
+  body: string,
+  timeoutMs = 10000
+): Promise<WebhookAttempt> {
+  const targetError = await checkWebhookTarget(url);
+  if (targetError) {
+    return { ok: false, responseStatus: null, error: targetError };
+  }
+
+  try {
+    // Redirects are not followed: they could lead to a blocked address
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Taskboard-Webhooks/1.0",
+        "X-Taskboard-Event": headers.event,
+        "X-Taskboard-Delivery": headers.deliveryId,
+        "X-Taskboard-Signature": signWebhookBody(secret, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+      dispatcher: webhookAgent,
+    });
+    // Only the status matters; release the connection right away
+    await response.body?.cancel();
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      error: response.ok ? null : `Receiver responded ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}